@@ -1,245 +1,1470 @@
 /**
  * Test script for Image Beautifier MCP Server
  *
- * This script simulates MCP tool calls for testing purposes.
+ * This script connects an MCP client to the server over an in-memory
+ * transport and exercises every tool end to end.
+ * Without GEMINI_API_KEY (and no IMAGE_PROVIDER set) it runs against the
+ * offline mock provider, so it needs no network.
  * Run with: npm run test
  */
 
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { ResourceListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createMCPServer } from '../src/mcp/server.js';
+import { JobQueue, loadJobQueueConfig } from '../src/mcp/jobs.js';
+import { GenerationCache, generationCacheKey, loadGenerationCacheConfig } from '../src/utils/cache.js';
+import { RateLimitConfig, RateLimiter } from '../src/mcp/rateLimit.js';
+import { DEFAULT_PRICES, UsageLedger } from '../src/mcp/usage.js';
+import { loadHttpServerConfig, parseAuthTokens, startHttpServer } from '../src/mcp/http.js';
+import { MockProvider } from '../src/providers/mockProvider.js';
 import { GeminiProvider } from '../src/providers/geminiProvider.js';
+import { OpenAIProvider } from '../src/providers/openaiProvider.js';
+import { applyStylePrompt } from '../src/providers/prompt.js';
+import { applyBrandPrompt, getBrandKit } from '../src/utils/presets.js';
+import { scorePalette } from '../src/utils/palette.js';
 import {
-  generateFilename,
-  writeBase64Image,
-  parseSize,
-  getMimeType,
-} from '../src/utils/files.js';
-import { toRelativePath } from '../src/utils/paths.js';
-import { logger } from '../src/utils/log.js';
+  ProviderError,
+  ProviderAuthError,
+  ProviderQuotaError,
+  SafetyBlockedError,
+} from '../src/providers/errors.js';
+import { createPreview, measureImage, readImageDimensions, sniffImageFormat } from '../src/utils/image.js';
+import { getMimeType, pruneOutputs, sizeForAspectRatio } from '../src/utils/files.js';
+import { getOutputsDir, resolveProjectPath, validateOutputPath } from '../src/utils/paths.js';
+import fs from 'fs/promises';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import sharp from 'sharp';
 import dotenv from 'dotenv';
 
 dotenv.config();
 
-async function testGenerateImage() {
+if (!process.env.IMAGE_PROVIDER && !process.env.GEMINI_API_KEY) {
+  process.env.IMAGE_PROVIDER = 'mock';
+}
+
+let failures = 0;
+let resourceListChanges = 0;
+
+function check(condition: boolean, message: string): void {
+  if (condition) {
+    console.log('✓', message);
+  } else {
+    failures++;
+    console.error('✗', message);
+  }
+}
+
+async function connectClient(): Promise<Client> {
+  const server = createMCPServer();
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+
+  client.setNotificationHandler(ResourceListChangedNotificationSchema, async () => {
+    resourceListChanges++;
+  });
+
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+
+  return client;
+}
+
+async function callTool(client: Client, name: string, args: Record<string, unknown>): Promise<any> {
+  const result: any = await client.callTool({ name, arguments: args });
+  const output = JSON.parse(result.content[0].text);
+  console.log('\nOutput:', JSON.stringify(output, null, 2));
+  return output;
+}
+
+/**
+ * Check that a successful image output points at a real image of the reported size
+ */
+async function checkImageOutput(output: any, width?: number, height?: number): Promise<void> {
+  check(output.ok === true, 'Tool returned ok');
+  if (!output.ok) {
+    return;
+  }
+
+  const buffer = await fs.readFile(validateOutputPath(output.file_path));
+  const format = sniffImageFormat(buffer);
+  check(format !== null, `Saved file is a readable image: ${output.file_path}`);
+  check(!!format && getMimeType(format) === output.mime_type, `Reported MIME type matches the bytes (${output.mime_type})`);
+
+  const dimensions = await measureImage(buffer);
+  check(
+    dimensions?.width === output.width && dimensions?.height === output.height,
+    `Reported size matches the saved file (${output.width}x${output.height})`
+  );
+
+  if (width && height) {
+    check(output.width === width && output.height === height, `Reported size is ${width}x${height}`);
+  }
+  check(!!output.provider && !!output.model, `Reports provider and model (${output.provider}/${output.model})`);
+}
+
+async function testGenerateImage(client: Client): Promise<string | null> {
   console.log('\n=== Testing generate_image ===\n');
 
-  const provider = new GeminiProvider();
+  const output = await callTool(client, 'generate_image', {
+    prompt: 'A cute cartoon banana wearing sunglasses',
+    style: 'illustration',
+    size: '1024x1024',
+    background: 'solid',
+    output_format: 'png',
+  });
 
-  if (!provider.isConfigured()) {
-    console.log('⚠️  Provider not configured. Set GEMINI_API_KEY in .env file.');
-    console.log('Skipping actual image generation test.\n');
+  await checkImageOutput(output, 1024, 1024);
+  return output.ok ? output.file_path : null;
+}
+
+async function testEditImage(client: Client, sourcePath: string | null): Promise<void> {
+  console.log('\n=== Testing edit_image ===\n');
+
+  if (!sourcePath) {
+    console.log('⚠️  No source image from generate_image. Skipping test.\n');
     return;
   }
 
-  try {
-    const options = {
-      prompt: 'A cute cartoon banana wearing sunglasses',
-      style: 'illustration',
+  const output = await callTool(client, 'edit_image', {
+    prompt: 'Give image 1 a bright sunset background',
+    input_images: [{ path: sourcePath, role: 'source' }],
+    output_format: 'webp',
+  });
+
+  await checkImageOutput(output);
+  check(output.mime_type === 'image/webp', 'Reports the requested WebP MIME type');
+}
+
+async function testOutputFormats(client: Client): Promise<void> {
+  console.log('\n=== Testing output format transcoding ===\n');
+
+  for (const [format, mimeType] of [['jpeg', 'image/jpeg'], ['avif', 'image/avif'], ['webp', 'image/webp']]) {
+    const output = await callTool(client, 'generate_image', {
+      prompt: 'A banana on a plate',
       size: '1024x1024',
-      background: 'solid',
-      format: 'png',
-    };
+      output_format: format,
+      quality: 70,
+    });
+    await checkImageOutput(output, 1024, 1024);
+    check(output.mime_type === mimeType, `Transcodes to ${format}`);
+
+    const metadata = await sharp(await fs.readFile(validateOutputPath(output.file_path))).metadata();
+    check(metadata.width === 1024 && metadata.height === 1024, `${format} file has the reported dimensions`);
+  }
 
-    console.log('Generating image with options:', options);
+  const mismatch: any = await client.callTool({
+    name: 'generate_image',
+    arguments: { prompt: 'A banana', output_format: 'webp', output_path: 'banana.png' },
+  });
+  check(mismatch.isError === true, 'Rejects an output_path extension that contradicts output_format');
+}
 
-    const result = await provider.generateImage(options);
+async function testExactDimensions(): Promise<void> {
+  console.log('\n=== Testing exact output dimensions ===\n');
 
-    console.log('✓ Image generated successfully');
-    console.log('  Format:', result.format);
-    console.log('  Size:', `${result.width}x${result.height}`);
+  // Mimic a provider that only returns square presets
+  process.env.MOCK_IMAGE_SIZE = '1024x1024';
+  const client = await connectClient();
 
-    // Save the image
-    const filename = generateFilename('test_image', 'png');
-    let filePath: string;
+  try {
+    for (const fit of ['cover', 'contain', 'fill']) {
+      const output = await callTool(client, 'generate_image', {
+        prompt: 'A wide banana landscape',
+        size: '1536x1024',
+        fit,
+        provider: 'mock',
+      });
+      await checkImageOutput(output, 1536, 1024);
 
-    if (result.format === 'base64') {
-      filePath = await writeBase64Image(result.data, filename);
-    } else {
-      // For URL format, you'd download it
-      console.log('  URL:', result.data);
-      filePath = 'outputs/' + filename;
+      if (fit === 'contain') {
+        const { data } = await sharp(await fs.readFile(validateOutputPath(output.file_path)))
+          .ensureAlpha()
+          .raw()
+          .toBuffer({ resolveWithObject: true });
+        check(data[3] === 255, 'contain pads a solid background with an opaque color');
+      }
     }
 
-    console.log('✓ Image saved to:', toRelativePath(filePath));
+    const icon = await callTool(client, 'generate_icon', {
+      concept: 'A banana',
+      size: '256x256',
+      fit: 'contain',
+      provider: 'mock',
+    });
+    await checkImageOutput(icon, 256, 256);
+  } finally {
+    delete process.env.MOCK_IMAGE_SIZE;
+    await client.close();
+  }
+}
 
-    const output = {
-      ok: true,
-      file_path: toRelativePath(filePath),
-      mime_type: getMimeType('png'),
-      width: result.width,
-      height: result.height,
-    };
+async function readPixels(filePath: string): Promise<{ data: Buffer; width: number }> {
+  const { data, info } = await sharp(await fs.readFile(validateOutputPath(filePath)))
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width };
+}
 
-    console.log('\nOutput:', JSON.stringify(output, null, 2));
-  } catch (error) {
-    console.error('✗ Test failed:', error instanceof Error ? error.message : error);
+async function testTransparentBackgrounds(client: Client): Promise<void> {
+  console.log('\n=== Testing transparent backgrounds ===\n');
+
+  const icon = await callTool(client, 'generate_icon', { concept: 'A banana', size: '256x256', provider: 'mock' });
+  await checkImageOutput(icon, 256, 256);
+  if (icon.ok) {
+    const stats = await sharp(await fs.readFile(validateOutputPath(icon.file_path))).stats();
+    check(!stats.isOpaque && stats.channels[3].min === 0, 'Icon has a real alpha channel');
+    check(stats.channels[3].max === 255, 'Icon subject stays opaque');
+  }
+
+  // JPEG has no alpha channel, so JPEG icons are drawn on a solid backdrop instead of keyed out
+  const jpegIcon = await callTool(client, 'generate_icon', { concept: 'A banana', size: '256x256', output_format: 'jpeg', provider: 'mock' });
+  const jpegInfo = await callTool(client, 'get_image_info', { file_path: jpegIcon.file_path });
+  check(jpegInfo.metadata?.parameters?.background === 'solid', 'JPEG icons get a solid background');
+
+  // White backdrop, red disc, and a white dot inside the disc that must survive
+  const sourcePath = path.join(getOutputsDir(), 'test_remove_background_source.png');
+  const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="200" height="200"><rect width="200" height="200" fill="#fff"/><circle cx="100" cy="100" r="60" fill="#d02020"/><circle cx="100" cy="100" r="10" fill="#fff"/></svg>';
+  await fs.writeFile(validateOutputPath(sourcePath), await sharp(Buffer.from(svg)).jpeg().toBuffer());
+
+  try {
+    const output = await callTool(client, 'remove_background', { input_image_path: sourcePath, output_format: 'webp' });
+    check(output.ok === true && output.mime_type === 'image/webp', 'remove_background writes a WebP');
+    check(output.width === 200 && output.height === 200, 'Keeps the input size');
+
+    if (output.ok) {
+      const { data, width } = await readPixels(output.file_path);
+      const alphaAt = (x: number, y: number) => data[(y * width + x) * 4 + 3];
+      check(alphaAt(2, 2) === 0 && alphaAt(197, 100) === 0, 'Background is transparent');
+      check(alphaAt(100, 60) === 255, 'Subject is opaque');
+      check(alphaAt(100, 100) === 255, 'Background-colored areas inside the subject are kept');
+    }
+
+    const jpeg: any = await client.callTool({
+      name: 'remove_background',
+      arguments: { input_image_path: sourcePath, output_format: 'jpeg' },
+    });
+    check(jpeg.isError === true, 'Rejects output formats without alpha');
+
+    for (const [tool, args, field] of [
+      ['generate_image', { prompt: 'A banana', background: 'transparent', output_format: 'jpeg' }, 'background'],
+      ['generate_batch', { items: [{ prompt: 'A banana', background: 'transparent' }], output_format: 'jpeg' }, 'items'],
+    ] as const) {
+      const result: any = await client.callTool({ name: tool, arguments: { ...args, provider: 'mock' } });
+      const payload = result.isError ? JSON.parse(result.content[0].text) : {};
+      check(payload.code === 'invalid_arguments' && payload.details?.[0]?.field === field, `${tool} rejects a transparent background with JPEG output`);
+    }
+  } finally {
+    await fs.rm(validateOutputPath(sourcePath), { force: true });
   }
 }
 
-async function testGenerateIcon() {
+async function testGenerateIcon(client: Client): Promise<void> {
   console.log('\n=== Testing generate_icon ===\n');
 
-  const provider = new GeminiProvider();
+  const output = await callTool(client, 'generate_icon', {
+    concept: 'A rocket ship launching into space',
+    theme: 'minimal',
+    size: '512x512',
+    output_format: 'png',
+  });
 
-  if (!provider.isConfigured()) {
-    console.log('⚠️  Provider not configured. Skipping test.\n');
-    return;
+  await checkImageOutput(output, 512, 512);
+}
+
+async function testIconSet(client: Client): Promise<void> {
+  console.log('\n=== Testing icon set export ===\n');
+
+  const zipped = await callTool(client, 'generate_icon', {
+    concept: 'A paper plane',
+    size: '256x256',
+    export_icon_set: 'zip',
+    background_color: '#1e3a8a',
+  });
+  await checkImageOutput(zipped, 256, 256);
+
+  const zipSet = zipped.icon_set;
+  check(!!zipSet && zipSet.path.endsWith('.zip') && !!zipSet.resource_uri, 'Writes the icon set as a zip resource');
+  if (zipSet) {
+    const archive = await fs.readFile(validateOutputPath(zipSet.path));
+    check(archive.readUInt32LE(0) === 0x04034b50, 'Zip starts with a local file header');
+    check(archive.readUInt16LE(archive.length - 12) === zipSet.files.length, 'Zip lists every icon file');
+    for (const file of ['favicon.ico', 'apple-touch-icon.png', 'icon-maskable-512.png', 'android/mipmap-xxxhdpi/ic_launcher_foreground.png', 'manifest.webmanifest']) {
+      check(zipSet.files.includes(file), `Icon set contains ${file}`);
+    }
+    check(zipSet.manifest.icons.some((icon: any) => icon.purpose === 'maskable'), 'Manifest snippet lists maskable icons');
+    check(zipSet.html.includes('rel="apple-touch-icon"'), 'Returns HTML link tags');
+  }
+
+  const folder = await callTool(client, 'generate_icon', { concept: 'A paper plane', export_icon_set: 'folder' });
+  const folderSet = folder.icon_set;
+  check(folderSet?.format === 'folder', 'Writes the icon set as a folder');
+  if (folderSet) {
+    const readIcon = (file: string) => fs.readFile(path.join(validateOutputPath(folderSet.path), file));
+
+    const ico = await readIcon('favicon.ico');
+    check(ico.readUInt16LE(2) === 1 && ico.readUInt16LE(4) === 3, 'favicon.ico holds three resolutions');
+
+    const touch = await sharp(await readIcon('apple-touch-icon.png')).stats();
+    const touchSize = await sharp(await readIcon('apple-touch-icon.png')).metadata();
+    check(touch.isOpaque && touchSize.width === 180, 'apple-touch-icon is opaque and 180px');
+
+    const maskable = await sharp(await readIcon('icon-maskable-512.png')).stats();
+    check(maskable.isOpaque, 'Maskable icon is opaque');
+
+    const foreground = await sharp(await readIcon('android/mipmap-xxxhdpi/ic_launcher_foreground.png')).stats();
+    check(!foreground.isOpaque, 'Android foreground layer is transparent around the artwork');
+  }
+}
+
+async function testGenerateBatch(client: Client): Promise<void> {
+  console.log('\n=== Testing generate_batch ===\n');
+
+  const variants = await callTool(client, 'generate_batch', {
+    prompt: 'A banana mascot',
+    n: 3,
+    size: '1024x1024',
+    contact_sheet: true,
+    concurrency: 2,
+  });
+  check(variants.ok === true && variants.succeeded === 3, 'Generates every variant');
+  check(
+    new Set(variants.items?.map((item: any) => item.style)).size === 3,
+    'Variants cycle through styles'
+  );
+  for (const item of variants.items || []) {
+    await checkImageOutput(item, 1024, 1024);
+  }
+  const sheet = variants.contact_sheet;
+  check(!!sheet && sheet.mime_type === 'image/png' && sheet.width === sheet.height, 'Saves a contact sheet tiling the variants in a 2x2 grid');
+
+  // A separate server so the simulated failures don't leak into other tests
+  process.env.MOCK_FAILURE = 'safety';
+  process.env.MOCK_FAILURE_RATE = '0.5';
+  const failing = await connectClient();
+  try {
+    const mixed = await callTool(failing, 'generate_batch', {
+      items: ['cat', 'dog', 'fox', 'owl', 'elk', 'bee'].map((animal) => ({ prompt: `A ${animal}` })),
+      provider: 'mock',
+    });
+    check(mixed.ok === true && mixed.succeeded > 0 && mixed.failed > 0, `Keeps successes when some items fail (${mixed.succeeded} ok, ${mixed.failed} failed)`);
+    check(
+      (mixed.items || []).every((item: any) => item.ok || item.code === 'safety_blocked'),
+      'Failed items carry their error code'
+    );
+  } finally {
+    delete process.env.MOCK_FAILURE;
+    delete process.env.MOCK_FAILURE_RATE;
+    await failing.close();
+  }
+
+  const invalid: any = await client.callTool({
+    name: 'generate_batch',
+    arguments: { prompt: 'A banana', items: [{ prompt: 'A pear' }] },
+  });
+  check(invalid.isError === true, 'Rejects items and prompt together');
+}
+
+async function testJobs(client: Client): Promise<void> {
+  console.log('\n=== Testing background jobs ===\n');
+
+  const queued = await callTool(client, 'generate_image', { prompt: 'A slow banana', async: true });
+  check(queued.ok === true && typeof queued.job_id === 'string', 'async: true returns a job id');
+
+  const done = await callTool(client, 'wait_job', { job_id: queued.job_id, timeout_ms: 10000 });
+  check(done.status === 'succeeded', 'wait_job waits for the job to finish');
+  if (done.result) {
+    await checkImageOutput(done.result, 1024, 1024);
   }
 
+  const listed = await callTool(client, 'list_jobs', { status: 'succeeded' });
+  check(listed.jobs?.some((job: any) => job.job_id === queued.job_id), 'list_jobs includes the finished job');
+  const unfiltered: any = await client.callTool({ name: 'list_jobs' });
+  check(!unfiltered.isError && JSON.parse(unfiltered.content[0].text).count >= 1, 'list_jobs works without arguments');
+
+  const missing: any = await client.callTool({ name: 'get_job', arguments: { job_id: 'no-such-job' } });
+  check(missing.isError === true && JSON.parse(missing.content[0].text).code === 'not_found', 'Unknown job ids are not_found');
+
+  const invalid: any = await client.callTool({ name: 'generate_image', arguments: { async: true } });
+  check(invalid.isError === true, 'Invalid arguments are rejected before a job is queued');
+
+  // Slow the mock down so the batch is still running while we wait on it
+  process.env.MOCK_LATENCY_MS = '150';
+  const slow = await connectClient();
   try {
-    const concept = 'A rocket ship launching into space';
-    const theme = 'minimal';
-    const size = '512x512';
+    const batch = await callTool(slow, 'generate_batch', { prompt: 'A banana', n: 3, concurrency: 1, async: true, provider: 'mock' });
+    const updates: number[] = [];
+    const result: any = await slow.callTool(
+      { name: 'wait_job', arguments: { job_id: batch.job_id, timeout_ms: 10000 } },
+      undefined,
+      { onprogress: (progress) => updates.push(progress.progress) }
+    );
+    const waited = JSON.parse(result.content[0].text);
+    check(waited.status === 'succeeded' && waited.result?.succeeded === 3, 'Batch job completes');
+    check(updates.length > 0 && updates.every((value, index) => index === 0 || value > updates[index - 1]), `Sends increasing progress notifications (${updates.join(', ')})`);
 
-    const prompt = `A ${theme} icon representing: ${concept}. Icon design, centered, clean background.`;
+    const other = await callTool(client, 'get_job', { job_id: batch.job_id });
+    check(other.ok === true, 'Jobs are shared by sessions of the same client');
+  } finally {
+    delete process.env.MOCK_LATENCY_MS;
+    await slow.close();
+  }
 
-    console.log('Generating icon with concept:', concept);
-    console.log('Theme:', theme);
+  const queue = new JobQueue({ maxQueued: 1, concurrency: 1, retentionMs: 60000, maxFinished: 2 });
+  const first = queue.submit('local', 'generate_image', () => new Promise((resolve) => setTimeout(() => resolve({ content: [] }), 50)));
+  try {
+    queue.submit('local', 'generate_image', async () => ({ content: [] }));
+    check(false, 'Rejects jobs beyond the queue limit');
+  } catch (error: any) {
+    check(error.code === 'queue_full' && error.retryable === true, 'Rejects jobs beyond the queue limit');
+  }
 
-    const result = await provider.generateImage({
-      prompt,
-      style: 'flat',
-      size,
-      background: 'transparent',
-      format: 'png',
+  await queue.wait(first.id, 'local', 5000);
+  for (let index = 0; index < 2; index++) {
+    const job = queue.submit('local', 'generate_image', async () => ({ content: [] }));
+    await queue.wait(job.id, 'local', 5000);
+  }
+  const kept = queue.list('local');
+  check(kept.length === 2 && !kept.some((job) => job.id === first.id), 'Keeps at most maxFinished finished jobs, dropping the oldest');
+
+  process.env.JOB_QUEUE_MAX = 'lots';
+  try {
+    check(loadJobQueueConfig().maxQueued === 50, 'A non-numeric JOB_QUEUE_MAX falls back to the default');
+  } finally {
+    delete process.env.JOB_QUEUE_MAX;
+  }
+}
+
+async function testCancellation(): Promise<void> {
+  console.log('\n=== Testing cancellation ===\n');
+
+  process.env.MOCK_LATENCY_MS = '500';
+  const client = await connectClient();
+  try {
+    const before = await fs.readdir(getOutputsDir());
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+    const started = Date.now();
+    try {
+      await client.callTool({ name: 'generate_image', arguments: { prompt: 'A cancelled banana' } }, undefined, { signal: controller.signal });
+      check(false, 'Aborted call rejects on the client');
+    } catch {
+      check(Date.now() - started < 500, 'Aborted call rejects on the client without waiting for the provider');
+    }
+
+    // Let the server side unwind past the point where it would have written the file
+    await new Promise((resolve) => setTimeout(resolve, 600));
+    const after = await fs.readdir(getOutputsDir());
+    check(after.length === before.length, 'Cancelled generation writes no file');
+  } finally {
+    delete process.env.MOCK_LATENCY_MS;
+    await client.close();
+  }
+
+  // The upstream request itself is aborted, not just abandoned
+  let closed = false;
+  const server = http.createServer((req, res) => {
+    req.resume();
+    res.on('close', () => {
+      closed = true;
     });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  const saved = { ...process.env };
+  process.env.GEMINI_API_KEY = 'test-key';
+  process.env.GEMINI_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  try {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+    try {
+      await new GeminiProvider().generateImage({ prompt: 'never answered', signal: controller.signal });
+      check(false, 'Aborting cancels the upstream request');
+    } catch (error: any) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      check(error.code === 'cancelled' && closed, 'Aborting cancels the upstream request');
+    }
+  } finally {
+    process.env = saved;
+    server.closeAllConnections();
+    server.close();
+  }
+}
 
-    console.log('✓ Icon generated successfully');
+async function testGenerationCache(client: Client): Promise<void> {
+  console.log('\n=== Testing generation cache ===\n');
 
-    const filename = generateFilename('test_icon', 'png');
-    let filePath: string;
+  const args = { prompt: '  A cached   banana', style: 'flat', provider: 'mock' };
+  const first = await callTool(client, 'generate_image', args);
+  check(first.cache?.status === 'miss' && !!first.cache?.key, 'First call is a cache miss');
 
-    if (result.format === 'base64') {
-      filePath = await writeBase64Image(result.data, filename);
-    } else {
-      console.log('  URL:', result.data);
-      filePath = 'outputs/' + filename;
+  // The provider fails every request here, so only a cache hit can succeed
+  process.env.MOCK_FAILURE = 'safety';
+  const failing = await connectClient();
+  try {
+    const second = await callTool(failing, 'generate_image', { ...args, prompt: 'A cached banana' });
+    check(second.cache?.status === 'hit' && second.cache?.key === first.cache?.key, 'Repeated call (modulo whitespace) is served from cache');
+    check(second.file_path !== first.file_path, 'Cache hit is saved as a new output file');
+    await checkImageOutput(second, 1024, 1024);
+
+    for (const mode of ['refresh', 'bypass']) {
+      const result: any = await failing.callTool({ name: 'generate_image', arguments: { ...args, cache: mode } });
+      check(result.isError === true && JSON.parse(result.content[0].text).code === 'safety_blocked', `cache: ${mode} calls the provider`);
     }
+  } finally {
+    delete process.env.MOCK_FAILURE;
+    await failing.close();
+  }
+
+  const refreshed = await callTool(client, 'generate_image', { ...args, cache: 'refresh' });
+  check(refreshed.cache?.status === 'refresh' && refreshed.cache?.key === first.cache?.key, 'cache: refresh regenerates and stores');
+
+  const otherStyle = await callTool(client, 'generate_image', { ...args, style: '3d' });
+  check(otherStyle.cache?.status === 'miss', 'Different options use a different entry');
 
-    console.log('✓ Icon saved to:', toRelativePath(filePath));
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'banana-cache-'));
+  try {
+    const stylesFile = path.join(dir, 'styles.json');
+    const keyWithPrefix = async (prefix: string, mtime: Date) => {
+      await fs.writeFile(stylesFile, JSON.stringify({ styles: { house: { description: 'House look', prefix } } }));
+      await fs.utimes(stylesFile, mtime, mtime);
+      return generationCacheKey('mock', 'mock-image-1', { prompt: 'A banana', style: 'house' });
+    };
+    process.env.STYLES_FILE = stylesFile;
+    const before = await keyWithPrefix('Watercolor', new Date(Date.now() - 10000));
+    const after = await keyWithPrefix('Charcoal sketch', new Date());
+    check(before !== after, 'Editing a style preset changes the cache key');
+
+    const small = new GenerationCache({ dir, ttlMs: 60000, maxBytes: 150 });
+    await small.set('a', Buffer.alloc(100, 1));
+    await small.set('b', Buffer.alloc(100, 2));
+    check(!(await small.get('a')) && !!(await small.get('b')), 'Evicts the least recently used entries past CACHE_MAX_BYTES');
+
+    const shortLived = new GenerationCache({ dir, ttlMs: 20, maxBytes: 1000 });
+    await shortLived.set('c', Buffer.alloc(10));
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    check(!(await shortLived.get('c')), 'Entries expire after CACHE_TTL_MS');
+
+    process.env.CACHE_TTL_MS = 'a week';
+    check(loadGenerationCacheConfig().ttlMs === 604800000, 'A non-numeric CACHE_TTL_MS falls back to the default');
+  } finally {
+    delete process.env.STYLES_FILE;
+    delete process.env.CACHE_TTL_MS;
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+async function testUsage(client: Client): Promise<void> {
+  console.log('\n=== Testing usage ledger and get_usage ===\n');
+
+  const before = await callTool(client, 'get_usage', {});
+  const today = new Date().toISOString().slice(0, 10);
+  check(
+    before.totals?.calls > 0 && before.by_day?.[today]?.calls === before.totals.calls && before.by_tool?.generate_image?.calls > 0,
+    `Provider calls are recorded by day and tool (${before.totals?.calls} calls)`
+  );
+  check(before.totals.images === before.totals.calls && before.totals.output_tokens > 0, 'Reported images and tokens are recorded');
+
+  await callTool(client, 'generate_image', { prompt: '  A cached   banana', style: 'flat', provider: 'mock' });
+  const afterHit = await callTool(client, 'get_usage', {});
+  check(afterHit.totals.calls === before.totals.calls, 'Cache hits are not recorded');
+  const bare: any = await client.callTool({ name: 'get_usage' });
+  check(!bare.isError && JSON.parse(bare.content[0].text).totals.calls === before.totals.calls, 'get_usage works without arguments');
 
-    const { width, height } = parseSize(size);
-    const output = {
-      ok: true,
-      file_path: toRelativePath(filePath),
-      mime_type: getMimeType('png'),
-      width,
-      height,
+  await callTool(client, 'generate_image', { prompt: 'A banana on the usage ledger', provider: 'mock' });
+  const filtered = await callTool(client, 'get_usage', { tool: 'generate_image', since: today });
+  check(filtered.totals.calls === before.by_tool.generate_image.calls + 1 && Object.keys(filtered.by_tool).join() === 'generate_image', 'Filters by tool and date');
+
+  const invalid: any = await client.callTool({ name: 'get_usage', arguments: { since: 'yesterday-ish' } });
+  check(invalid.isError === true && JSON.parse(invalid.content[0].text).code === 'invalid_arguments', 'Rejects an invalid date');
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'banana-usage-'));
+  const budgetError = (ledger: UsageLedger) => {
+    try {
+      ledger.checkBudget();
+      return null;
+    } catch (error: any) {
+      return error;
+    }
+  };
+
+  try {
+    const config = {
+      ledgerFile: path.join(dir, 'ledger.jsonl'),
+      prices: { 'per-image': { per_image: 0.03 }, tokens: { input_per_million: 1, output_per_million: 10 } },
+      dailyBudgetUsd: 0.05,
+      monthlyBudgetUsd: 0,
     };
+    const ledger = new UsageLedger(config);
+    check(ledger.estimateCost('tokens', { inputTokens: 1000000, outputTokens: 100000, images: 1 }) === 2, 'Estimates token-priced cost from the price table');
 
-    console.log('\nOutput:', JSON.stringify(output, null, 2));
-  } catch (error) {
-    console.error('✗ Test failed:', error instanceof Error ? error.message : error);
+    const unpriced = await ledger.record({ tool: 'generate_image', provider: 'x', model: 'unknown', durationMs: 10 });
+    check(unpriced.cost_usd === null && ledger.summarize().totals.unpriced_calls === 1, 'Models without a price are counted as unpriced');
+
+    await ledger.record({ tool: 'generate_image', provider: 'x', model: 'per-image', durationMs: 10 });
+    check(!budgetError(ledger), 'Calls are allowed under the daily budget');
+    await ledger.record({ tool: 'generate_icon', provider: 'x', model: 'per-image', durationMs: 10 });
+    const daily = budgetError(ledger);
+    check(
+      daily?.code === 'budget_exceeded' && daily.details?.period === 'daily' && daily.details?.spent_usd === 0.06,
+      'Daily budget refuses calls once exceeded'
+    );
+
+    const reloaded = new UsageLedger({ ...config, dailyBudgetUsd: 0, monthlyBudgetUsd: 0.09 });
+    check(reloaded.summarize().totals.calls === 3 && !budgetError(reloaded), 'Ledger survives a restart');
+    const lastMonth = new Date(Date.now() - 40 * 24 * 60 * 60 * 1000);
+    await reloaded.record({ tool: 'generate_image', provider: 'x', model: 'per-image', durationMs: 10, timestamp: lastMonth });
+    await reloaded.record({ tool: 'generate_image', provider: 'x', model: 'per-image', durationMs: 10, timestamp: lastMonth });
+    check(!budgetError(reloaded), 'Earlier months do not count against the monthly budget');
+    await reloaded.record({ tool: 'generate_image', provider: 'x', model: 'per-image', durationMs: 10 });
+    check(budgetError(reloaded)?.details?.period === 'monthly', 'Monthly budget refuses calls once exceeded');
+
+    const fresh = new UsageLedger({ ...config, ledgerFile: path.join(dir, 'fresh.jsonl') });
+    let unpricedError: any;
+    try {
+      fresh.checkBudget('unknown');
+    } catch (error) {
+      unpricedError = error;
+    }
+    check(unpricedError?.code === 'unpriced_model' && !budgetError(fresh), 'With a budget set, models without a price are refused');
+    check(!!DEFAULT_PRICES['gemini-3-pro-image-preview'], 'Gemini 3 Pro has a default price');
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+async function testImageInfo(client: Client): Promise<void> {
+  console.log('\n=== Testing generation metadata and get_image_info ===\n');
+
+  const cases = [
+    { output_format: 'png', background: 'solid', source: 'embedded' },
+    { output_format: 'webp', background: 'solid', source: 'embedded' },
+    { output_format: 'webp', background: 'transparent', source: 'embedded' },
+    { output_format: 'jpeg', background: 'solid', source: 'sidecar' },
+  ];
+  for (const { source, ...options } of cases) {
+    const label = `${options.output_format} (${options.background})`;
+    const output = await callTool(client, 'generate_image', { prompt: 'A banana with a ünicode "label"', style: 'pixel', ...options });
+    const buffer = await fs.readFile(validateOutputPath(output.file_path));
+    const decoded = await sharp(buffer).stats().then(() => true, () => false);
+    check(decoded, `${label} file with metadata still decodes`);
+
+    const info = await callTool(client, 'get_image_info', { file_path: output.file_path });
+    check(info.ok === true && info.width === output.width && info.height === output.height && info.file_size === buffer.length, `get_image_info reports ${label} dimensions and size`);
+    check(info.metadata_source === source, `${label} metadata is ${source}`);
+    check(
+      info.metadata?.tool === 'generate_image'
+        && info.metadata?.parameters?.prompt === 'A banana with a ünicode "label"'
+        && info.metadata?.parameters?.style === 'pixel'
+        && info.metadata?.model === output.model,
+      `${label} metadata records the prompt, style and model`
+    );
+  }
+
+  const missing: any = await client.callTool({ name: 'get_image_info', arguments: { file_path: path.join(getOutputsDir(), 'no-such-file.png') } });
+  check(missing.isError === true && JSON.parse(missing.content[0].text).code === 'not_found', 'get_image_info reports missing files');
+
+  const outside: any = await client.callTool({ name: 'get_image_info', arguments: { file_path: '../package.json' } });
+  check(outside.isError === true && JSON.parse(outside.content[0].text).code === 'invalid_path', 'get_image_info is confined to outputs/');
+}
+
+async function testOutputLibrary(client: Client): Promise<void> {
+  console.log('\n=== Testing output library tools ===\n');
+
+  const tag = `lemon${Date.now()}`;
+  const jpeg = await callTool(client, 'generate_image', { prompt: `A ${tag} on a desk`, output_format: 'jpeg' });
+  const webp = await callTool(client, 'generate_image', { prompt: `A ${tag} on a desk`, output_format: 'webp' });
+
+  const found = await callTool(client, 'list_outputs', { query: tag.toUpperCase() });
+  check(
+    found.total === 2 && found.files?.[0]?.file_path === webp.file_path && found.files?.[1]?.file_path === jpeg.file_path,
+    'list_outputs finds files by recorded prompt, newest first'
+  );
+  check(found.files?.every((file: any) => file.tool === 'generate_image' && !file.filename.endsWith('.json')), 'Listed files carry their tool, without sidecars');
+
+  const paged = await callTool(client, 'list_outputs', { query: tag, format: 'jpeg', limit: 1 });
+  check(paged.total === 1 && paged.files?.[0]?.mime_type === 'image/jpeg' && !paged.next_cursor, 'list_outputs filters by format');
+  const first = await callTool(client, 'list_outputs', { tool: 'generate_image', limit: 1 });
+  const second = await callTool(client, 'list_outputs', { tool: 'generate_image', limit: 1, cursor: first.next_cursor });
+  check(!!first.next_cursor && second.files?.[0]?.file_path !== first.files?.[0]?.file_path, 'list_outputs paginates');
+  const future = await callTool(client, 'list_outputs', { since: new Date(Date.now() + 60000).toISOString() });
+  check(future.total === 0, 'list_outputs filters by date');
+  const unfiltered: any = await client.callTool({ name: 'list_outputs' });
+  check(!unfiltered.isError && JSON.parse(unfiltered.content[0].text).total >= 2, 'list_outputs works without arguments');
+
+  const newName = `${tag}.webp`;
+  const renamed = await callTool(client, 'rename_output', { file_path: webp.file_path, new_name: newName });
+  check(renamed.ok === true && path.basename(renamed.file_path) === newName, 'rename_output renames the file');
+  const info = await callTool(client, 'get_image_info', { file_path: renamed.file_path });
+  check(info.metadata?.parameters?.prompt === `A ${tag} on a desk`, 'Renamed file keeps its metadata');
+
+  for (const [newNameArg, code] of [[`${tag}.png`, 'invalid_arguments'], ['../escape.webp', 'invalid_path'], [path.basename(jpeg.file_path), 'invalid_arguments']]) {
+    const result: any = await client.callTool({ name: 'rename_output', arguments: { file_path: renamed.file_path, new_name: newNameArg } });
+    check(result.isError === true && JSON.parse(result.content[0].text).code === code, `rename_output to ${newNameArg} fails with ${code}`);
   }
+
+  const deleted = await callTool(client, 'delete_output', { file_path: jpeg.file_path });
+  const jpegPath = validateOutputPath(jpeg.file_path);
+  const gone = !(await fs.access(jpegPath).then(() => true, () => false))
+    && !(await fs.access(`${jpegPath}.json`).then(() => true, () => false));
+  check(deleted.ok === true && gone, 'delete_output removes the file and its sidecar');
+
+  for (const [name, args, code] of [
+    ['delete_output', { file_path: jpeg.file_path }, 'not_found'],
+    ['delete_output', { file_path: '../package.json' }, 'invalid_path'],
+  ] as const) {
+    const result: any = await client.callTool({ name, arguments: args });
+    check(result.isError === true && JSON.parse(result.content[0].text).code === code, `${name} reports ${code}`);
+  }
+}
+
+/**
+ * Total size of outputs/ as the retention policy counts it
+ */
+async function outputsSize(dir = getOutputsDir()): Promise<number> {
+  let total = 0;
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    if (dir === getOutputsDir() && entry.name.startsWith('.')) continue;
+    const entryPath = path.join(dir, entry.name);
+    total += entry.isDirectory() ? await outputsSize(entryPath) : (await fs.stat(entryPath)).size;
+  }
+  return total;
 }
 
-async function testGenerateHero() {
+async function testRetention(): Promise<void> {
+  console.log('\n=== Testing outputs retention ===\n');
+
+  // Backdated files are the oldest in outputs/, so only they are pruned
+  const oldest = path.join(getOutputsDir(), 'retention_oldest.png');
+  const older = path.join(getOutputsDir(), 'retention_older.png');
+  await fs.writeFile(oldest, Buffer.alloc(1000));
+  await fs.writeFile(older, Buffer.alloc(1000));
+  await fs.utimes(oldest, new Date('2000-01-01'), new Date('2000-01-01'));
+  await fs.utimes(older, new Date('2001-01-01'), new Date('2001-01-01'));
+  const exists = (filePath: string) => fs.access(filePath).then(() => true, () => false);
+
+  await pruneOutputs({ maxBytes: (await outputsSize()) - 1000, maxAgeMs: 0 });
+  check(!(await exists(oldest)) && (await exists(older)), 'Size limit prunes the oldest outputs first');
+
+  const tenYears = 10 * 365 * 24 * 60 * 60 * 1000;
+  await pruneOutputs({ maxBytes: 0, maxAgeMs: tenYears }, [older]);
+  check(await exists(older), 'Outputs being written are never pruned');
+  await pruneOutputs({ maxBytes: 0, maxAgeMs: tenYears });
+  check(!(await exists(older)), 'Age limit prunes outputs past the maximum age');
+}
+
+async function testRateLimiter(): Promise<void> {
+  console.log('\n=== Testing rate limiter ===\n');
+
+  const base: RateLimitConfig = { globalPerMinute: 0, toolPerMinute: 2, tools: { generate_hero: 1 }, clientPerMinute: 0, clientScope: 'client' };
+  const rejection = (limiter: RateLimiter, caller: { tool: string; clientId: string; sessionId?: string }) => {
+    try {
+      limiter.acquire(caller);
+      return null;
+    } catch (error: any) {
+      return error;
+    }
+  };
+
+  const perTool = new RateLimiter(base);
+  perTool.acquire({ tool: 'generate_hero', clientId: 'a' });
+  const hero = rejection(perTool, { tool: 'generate_hero', clientId: 'a' });
+  check(
+    hero?.code === 'rate_limited' && hero.retryable && hero.retryAfterMs > 50000 && hero.retryAfterMs <= 60000 && hero.details?.scope === 'tool',
+    `Per-tool override is enforced with a retry delay (${Math.round(hero?.retryAfterMs)}ms)`
+  );
+  check(
+    !rejection(perTool, { tool: 'generate_icon', clientId: 'a' }) && !rejection(perTool, { tool: 'generate_icon', clientId: 'a' })
+      && !!rejection(perTool, { tool: 'generate_icon', clientId: 'a' }),
+    'Other tools have their own budget'
+  );
+
+  const global = new RateLimiter({ ...base, globalPerMinute: 2, toolPerMinute: 10 });
+  global.acquire({ tool: 'generate_image', clientId: 'a' });
+  global.acquire({ tool: 'generate_icon', clientId: 'b' });
+  check(rejection(global, { tool: 'edit_image', clientId: 'c' })?.details?.scope === 'global', 'Global budget spans tools and clients');
+
+  const perClient = new RateLimiter({ ...base, toolPerMinute: 10, clientPerMinute: 1 });
+  perClient.acquire({ tool: 'generate_image', clientId: 'a' });
+  check(rejection(perClient, { tool: 'generate_icon', clientId: 'a' })?.details?.scope === 'client', 'Client budget spans tools');
+  check(!rejection(perClient, { tool: 'generate_image', clientId: 'b' }), 'Clients have separate budgets');
+
+  const perSession = new RateLimiter({ ...base, toolPerMinute: 10, clientPerMinute: 1, clientScope: 'session' });
+  perSession.acquire({ tool: 'generate_image', clientId: 'a', sessionId: 's1' });
+  check(!rejection(perSession, { tool: 'generate_image', clientId: 'a', sessionId: 's2' }), 'Session scope gives each session its own budget');
+
+  const refunded = new RateLimiter(base);
+  const release = refunded.acquire({ tool: 'generate_hero', clientId: 'a' });
+  release();
+  check(!rejection(refunded, { tool: 'generate_hero', clientId: 'a' }), 'Released tokens can be used again');
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'banana-ratelimit-'));
+  try {
+    const stateFile = path.join(dir, 'state.json');
+    new RateLimiter({ ...base, stateFile }).acquire({ tool: 'generate_hero', clientId: 'a' });
+    check(!!rejection(new RateLimiter({ ...base, stateFile }), { tool: 'generate_hero', clientId: 'a' }), 'Persisted budgets survive a restart');
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+async function testGenerateHero(client: Client): Promise<void> {
   console.log('\n=== Testing generate_hero ===\n');
 
-  const provider = new GeminiProvider();
+  const output = await callTool(client, 'generate_hero', {
+    product_name: 'BananaMCP',
+    tagline: 'The sweetest MCP server for image generation',
+    vibe: 'modern',
+    size: '1536x1024',
+  });
+
+  if (output.suggested_prompt) {
+    console.log('⚠️  Provider not configured, got suggested prompt only.\n');
+    return;
+  }
+
+  await checkImageOutput(output, 1536, 1024);
+}
+
+async function testBeautifyScreenshot(client: Client, inputPath: string | null): Promise<void> {
+  console.log('\n=== Testing beautify_screenshot ===\n');
+
+  if (!inputPath) {
+    console.log('⚠️  No input image from generate_image. Skipping test.\n');
+    return;
+  }
+
+  const output = await callTool(client, 'beautify_screenshot', {
+    input_image_path: inputPath,
+    goal: 'Make the UI more modern and clean',
+  });
+
+  await checkImageOutput(output);
+}
+
+async function testResources(client: Client, imagePath: string | null): Promise<void> {
+  console.log('\n=== Testing output resources ===\n');
 
-  if (!provider.isConfigured()) {
-    console.log('⚠️  Provider not configured.');
-    console.log('Returning suggested prompt only.\n');
+  check(resourceListChanges > 0, `Sent resources/list_changed after writes (${resourceListChanges})`);
 
-    const prompt = 'Hero banner image for "BananaMCP". The sweetest MCP server for image generation, modern vibe. Professional, eye-catching, suitable for website header.';
+  const { resources } = await client.listResources();
+  check(resources.length > 0, `Lists output files as resources (${resources.length})`);
 
-    console.log('Suggested prompt:', prompt);
-    console.log('\nOutput:', JSON.stringify({
-      ok: false,
-      suggested_prompt: prompt,
-      message: 'Image provider not configured.',
-    }, null, 2));
+  const { resourceTemplates } = await client.listResourceTemplates();
+  check(resourceTemplates.some((template) => template.uriTemplate === 'outputs://{filename}'), 'Lists the outputs resource template');
 
+  if (!imagePath) {
     return;
   }
 
+  const filename = imagePath.split(/[\\/]/).pop()!;
+  const listed = resources.find((resource) => resource.name === filename);
+  check(listed?.mimeType === 'image/png', 'Generated image is listed with its MIME type');
+
+  const { contents } = await client.readResource({ uri: listed?.uri || `outputs://${filename}` });
+  const blob = (contents[0] as any)?.blob;
+  check(!!blob && readImageDimensions(Buffer.from(blob, 'base64')) !== null, 'Reads the image back as a base64 blob');
+}
+
+async function testInlineImages(client: Client): Promise<void> {
+  console.log('\n=== Testing inline image content ===\n');
+
+  const result: any = await client.callTool({
+    name: 'generate_icon',
+    arguments: { concept: 'A paper plane', size: '256x256', return_image: true },
+  });
+  const output = JSON.parse(result.content[0].text);
+  const image = result.content.find((block: any) => block.type === 'image');
+
+  check(!!image && image.mimeType === output.mime_type, 'Returns an image block with the file MIME type');
+  check(output.inline_image === 'full', 'Marks small images as returned in full');
+
+  const buffer = await fs.readFile(validateOutputPath(output.file_path));
+  const preview = await createPreview(buffer, 2000);
+  check(preview.data.length <= 2000 && preview.width < 256, `Downscales large images to a preview (${preview.width}px, ${preview.data.length} bytes)`);
+
+  // Settings from .env are loaded after the server module, so they must be read per call
+  process.env.INLINE_IMAGES = 'true';
+  process.env.INLINE_IMAGE_MAX_BYTES = '2000';
   try {
-    const productName = 'BananaMCP';
-    const tagline = 'The sweetest MCP server for image generation';
-    const vibe = 'modern';
+    const defaulted: any = await client.callTool({ name: 'generate_icon', arguments: { concept: 'A paper plane', size: '256x256' } });
+    const block = defaulted.content.find((item: any) => item.type === 'image');
+    check(!!block && JSON.parse(defaulted.content[0].text).inline_image === 'preview', 'INLINE_IMAGES and INLINE_IMAGE_MAX_BYTES apply when set after startup');
+  } finally {
+    delete process.env.INLINE_IMAGES;
+    delete process.env.INLINE_IMAGE_MAX_BYTES;
+  }
+}
 
-    const prompt = `Hero banner image for "${productName}". ${tagline}, ${vibe} vibe. Professional, eye-catching, suitable for website header.`;
+async function testPrompts(client: Client): Promise<void> {
+  console.log('\n=== Testing prompt templates ===\n');
 
-    console.log('Generating hero image for:', productName);
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'banana-prompts-'));
+  await fs.writeFile(path.join(dir, 'blog.json'), JSON.stringify({
+    name: 'blog_cover',
+    description: 'Blog post cover art',
+    arguments: [
+      { name: 'title', description: 'Post title', required: true },
+      { name: 'mood', description: 'Mood' },
+    ],
+    template: 'Cover art for a blog post titled "{{title}}"{{#mood}}, {{mood}} mood{{/mood}}.',
+    tool_arguments: { size: '1536x1024' },
+  }));
+  // Relative to the project root, like the other configured paths
+  process.env.PROMPTS_DIR = path.relative(resolveProjectPath('.'), dir);
 
-    const result = await provider.generateImage({
-      prompt,
-      style: 'photoreal',
-      size: '1536x1024',
-      background: 'solid',
-      format: 'png',
-    });
+  try {
+    const { prompts } = await client.listPrompts();
+    const names = prompts.map((prompt) => prompt.name);
+    check(
+      ['icon', 'hero', 'app_store_screenshot', 'empty_state_illustration', 'not_found_page', 'blog_cover'].every((name) => names.includes(name)),
+      `Lists built-in and config templates (${names.join(', ')})`
+    );
 
-    console.log('✓ Hero image generated successfully');
+    const icon = await client.getPrompt({ name: 'icon', arguments: { concept: 'A rocket' } });
+    const iconText = (icon.messages[0].content as any).text as string;
+    check(iconText.includes('minimalist') && iconText.includes('A rocket'), 'Renders the icon recipe with default theme');
 
-    const filename = generateFilename('test_hero', 'png');
-    let filePath: string;
+    const blog = await client.getPrompt({ name: 'blog_cover', arguments: { title: 'Hello' } });
+    const blogText = (blog.messages[0].content as any).text as string;
+    check(blogText.includes('titled \\"Hello\\".') && blogText.includes('1536x1024'), 'Renders config templates and drops empty sections');
 
-    if (result.format === 'base64') {
-      filePath = await writeBase64Image(result.data, filename);
-    } else {
-      console.log('  URL:', result.data);
-      filePath = 'outputs/' + filename;
+    try {
+      await client.getPrompt({ name: 'icon', arguments: { concept: 'A rocket', theme: 'grunge' } });
+      check(false, 'Rejects values outside an argument enum');
+    } catch {
+      check(true, 'Rejects values outside an argument enum');
     }
+  } finally {
+    delete process.env.PROMPTS_DIR;
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
 
-    console.log('✓ Hero image saved to:', toRelativePath(filePath));
+async function testStylePresets(client: Client): Promise<void> {
+  console.log('\n=== Testing style and theme presets ===\n');
 
-    const output = {
-      ok: true,
-      file_path: toRelativePath(filePath),
-      mime_type: getMimeType('png'),
-      width: result.width,
-      height: result.height,
-    };
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'banana-styles-'));
+  const yamlFile = path.join(dir, 'styles.yaml');
+  await fs.writeFile(yamlFile, [
+    'styles:',
+    '  brand-isometric:',
+    '    description: Our brand isometric look',
+    '    prefix: isometric illustration',
+    '    suffix: brand colors teal and coral',
+    '    negative: photorealism, gradients',
+    '    size: 1536x1024',
+    '    background: transparent',
+    '  too-small:',
+    '    size: 800x600',
+    'themes:',
+    '  docs-line-art:',
+    '    prefix: thin monochrome line art',
+    '    size: 256x256',
+    '',
+  ].join('\n'));
+  process.env.STYLES_FILE = yamlFile;
 
-    console.log('\nOutput:', JSON.stringify(output, null, 2));
-  } catch (error) {
-    console.error('✗ Test failed:', error instanceof Error ? error.message : error);
+  try {
+    const { tools } = await client.listTools();
+    const imageTool = tools.find((tool) => tool.name === 'generate_image') as any;
+    const iconTool = tools.find((tool) => tool.name === 'generate_icon') as any;
+    check(
+      imageTool.inputSchema.properties.style.enum.includes('brand-isometric') && imageTool.inputSchema.properties.style.enum.includes('pixel')
+        && iconTool.inputSchema.properties.theme.enum.includes('docs-line-art'),
+      'Tool schemas list built-in and configured presets'
+    );
+
+    const listed = await callTool(client, 'list_styles', {});
+    const brand = listed.styles?.find((style: any) => style.name === 'brand-isometric');
+    check(brand?.source === 'config' && brand.negative === 'photorealism, gradients' && listed.themes?.some((theme: any) => theme.name === 'minimal'), 'list_styles describes the presets');
+    check(
+      applyStylePrompt('A mug', 'brand-isometric') === 'isometric illustration, A mug, brand colors teal and coral. Avoid: photorealism, gradients',
+      'Presets add their prefix, suffix and negative guidance to the prompt'
+    );
+
+    const image = await callTool(client, 'generate_image', { prompt: 'A mug', style: 'brand-isometric', provider: 'mock' });
+    await checkImageOutput(image, 1536, 1024);
+    const stats = await sharp(await fs.readFile(validateOutputPath(image.file_path))).stats();
+    check(!stats.isOpaque && stats.channels[3].min === 0, 'Style presets set the default size and background');
+    const sized = await callTool(client, 'generate_image', { prompt: 'A mug', style: 'brand-isometric', size: '1024x1024', provider: 'mock' });
+    check(sized.width === 1024 && sized.height === 1024, 'Arguments override preset defaults');
+
+    const icon = await callTool(client, 'generate_icon', { concept: 'A book', theme: 'docs-line-art', provider: 'mock' });
+    check(icon.width === 256 && icon.height === 256, 'Theme presets set the default icon size');
+
+    for (const [args, field] of [[{ style: 'grunge' }, 'style'], [{ style: 'too-small' }, 'style']] as const) {
+      const result: any = await client.callTool({ name: 'generate_image', arguments: { prompt: 'A mug', provider: 'mock', ...args } });
+      const payload = result.isError ? JSON.parse(result.content[0].text) : {};
+      check(payload.code === 'invalid_arguments' && payload.details?.[0]?.field === field, `Rejects ${args.style}: ${payload.error}`);
+    }
+
+    // Switching to a JSON file is picked up without a restart
+    const jsonFile = path.join(dir, 'styles.json');
+    await fs.writeFile(jsonFile, JSON.stringify({ styles: { 'docs-line-art': { prefix: 'line art' } } }));
+    process.env.STYLES_FILE = jsonFile;
+    const reloaded = await callTool(client, 'list_styles', {});
+    check(
+      reloaded.styles.some((style: any) => style.name === 'docs-line-art') && !reloaded.styles.some((style: any) => style.name === 'brand-isometric'),
+      'Reloads presets when the file changes'
+    );
+  } finally {
+    delete process.env.STYLES_FILE;
+    await fs.rm(dir, { recursive: true, force: true });
   }
 }
 
-async function testBeautifyScreenshot() {
-  console.log('\n=== Testing beautify_screenshot (stub) ===\n');
+async function testBrandKits(client: Client): Promise<void> {
+  console.log('\n=== Testing brand kits ===\n');
 
-  const input = {
-    input_image_path: 'outputs/test.png',
-    goal: 'Make the UI more modern and clean',
-  };
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'banana-brands-'));
+  const solid = (color: string) => sharp({ create: { width: 32, height: 32, channels: 3, background: color } }).png().toBuffer();
+  await fs.writeFile(path.join(dir, 'logo.png'), await solid('#1e40af'));
+  await fs.writeFile(path.join(dir, 'ref.png'), await solid('#f97316'));
+  const stylesFile = path.join(dir, 'styles.yaml');
+  await fs.writeFile(stylesFile, [
+    'brands:',
+    '  acme:',
+    '    description: Acme house look',
+    '    palette: ["#1E40AF", "f97316"]',
+    '    typography: geometric sans-serif, bold headings',
+    '    tone: [confident, warm]',
+    '    do: [generous whitespace]',
+    '    dont: [gradients, drop shadows]',
+    '    logo: logo.png',
+    '    references: [ref.png]',
+    '    min_palette_score: 0.4',
+    '',
+  ].join('\n'));
+  process.env.STYLES_FILE = stylesFile;
+
+  try {
+    const { tools } = await client.listTools();
+    const heroTool = tools.find((tool) => tool.name === 'generate_hero') as any;
+    check(heroTool.inputSchema.properties.brand.enum.includes('acme'), 'Tool schemas list the brand kits');
+
+    const listed = await callTool(client, 'list_styles', {});
+    const kit = listed.brands?.find((brand: any) => brand.name === 'acme');
+    check(
+      kit?.palette.join() === '#1e40af,#f97316' && kit.logo === 'logo.png' && kit.references[0] === 'ref.png' && kit.min_palette_score === 0.4,
+      'list_styles describes the brand kits'
+    );
+
+    const prompt = applyBrandPrompt('A mug.', getBrandKit('acme')!);
+    check(
+      prompt.startsWith('A mug. Brand guidelines: use the brand color palette #1e40af, #f97316')
+        && prompt.includes('tone: confident, warm') && prompt.includes('don\'t: gradients; drop shadows') && prompt.includes('attached brand logo'),
+      'Brand kits add their palette, tone and rules to the prompt'
+    );
+
+    const onBrand = await scorePalette(await solid('#2040b0'), ['#1e40af', '#f97316']);
+    const offBrand = await scorePalette(await solid('#00ff00'), ['#1e40af', '#f97316']);
+    check(onBrand.score === 1 && onBrand.colors[0].share === 1 && offBrand.score === 0, 'Palette scores count pixels close to a brand color');
+
+    const image = await callTool(client, 'generate_image', { prompt: 'A mug', brand: 'acme', palette_check: true, cache: 'bypass', provider: 'mock' });
+    await checkImageOutput(image, 1024, 1024);
+    check(
+      image.palette_check?.brand === 'acme' && image.palette_check.min_score === 0.4
+        && image.palette_check.passed === image.palette_check.score >= 0.4 && image.palette_check.colors.length === 2,
+      `generate_image reports the palette check (score ${image.palette_check?.score})`
+    );
+
+    // The mock draws from the reference images too, so a new logo changes the image
+    await fs.writeFile(path.join(dir, 'logo.png'), await solid('#0f172a'));
+    const relogo = await callTool(client, 'generate_image', { prompt: 'A mug', brand: 'acme', cache: 'bypass', provider: 'mock' });
+    const before = await fs.readFile(validateOutputPath(image.file_path));
+    const after = await fs.readFile(validateOutputPath(relogo.file_path));
+    check(!(await sharp(before).raw().toBuffer()).equals(await sharp(after).raw().toBuffer()), 'Brand images are sent to the provider');
+
+    const icon = await callTool(client, 'generate_icon', { concept: 'A rocket', brand: 'acme', palette_check: true, provider: 'mock' });
+    check(icon.ok === true && typeof icon.palette_check?.score === 'number', 'generate_icon accepts a brand');
+
+    for (const [args, field] of [[{ brand: 'globex' }, 'brand'], [{ palette_check: true }, 'palette_check']] as const) {
+      const result: any = await client.callTool({ name: 'generate_hero', arguments: { product_name: 'Acme', tagline: 'Rockets', provider: 'mock', ...args } });
+      const payload = result.isError ? JSON.parse(result.content[0].text) : {};
+      check(payload.code === 'invalid_arguments' && payload.details?.[0]?.field === field, `Rejects ${JSON.stringify(args)}: ${payload.error}`);
+    }
+  } finally {
+    delete process.env.STYLES_FILE;
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+
+  const { tools } = await client.listTools();
+  const heroTool = tools.find((tool) => tool.name === 'generate_hero') as any;
+  check(heroTool.inputSchema.properties.brand.enum === undefined, 'Tool schemas leave out the brand enum when no kits are defined');
+}
 
-  console.log('Input:', input);
+async function testErrorResults(client: Client): Promise<void> {
+  console.log('\n=== Testing structured error results ===\n');
 
-  const suggestions = [
-    'Increase whitespace and padding for a cleaner look',
-    'Use a consistent color palette throughout the UI',
-    'Improve typography hierarchy with varied font sizes',
-    'Add subtle shadows or borders to define sections',
-    'Ensure proper alignment of all elements',
-    'Consider using rounded corners for a modern feel',
-    'Optimize button sizes and spacing for better UX',
+  const cases: Array<[string, Record<string, unknown>, string]> = [
+    ['generate_image', { prompt: '', style: 'watercolor' }, 'invalid_arguments'],
+    ['beautify_screenshot', { input_image_path: '../secret.png', goal: 'nicer' }, 'invalid_path'],
+    ['generate_image', { prompt: 'A banana', provider: 'nope' }, 'invalid_arguments'],
+    ['no_such_tool', {}, 'unknown_tool'],
   ];
 
-  const output = {
-    ok: true,
-    message: 'Beautify screenshot is currently a stub implementation',
-    suggested_steps: suggestions,
-    note: 'To implement image editing, integrate an image manipulation API or library',
+  for (const [name, args, code] of cases) {
+    const result: any = await client.callTool({ name, arguments: args });
+    const output = JSON.parse(result.content[0].text);
+    check(
+      result.isError === true && output.ok === false && output.code === code && typeof output.retryable === 'boolean',
+      `${name} reports ${code} with isError set`
+    );
+    if (code === 'invalid_arguments' && name === 'generate_image' && !args.provider) {
+      const fields = (output.details || []).map((detail: any) => detail.field);
+      check(fields.includes('prompt') && fields.includes('style'), 'Validation details list each invalid field');
+    }
+  }
+}
+
+async function testHttpTransport(): Promise<void> {
+  console.log('\n=== Testing Streamable HTTP transport ===\n');
+
+  const httpServer = await startHttpServer({
+    port: 0,
+    host: '127.0.0.1',
+    tokens: parseAuthTokens('ci:secret-token'),
+    sessionIdleMs: 60000,
+  });
+  const baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+
+  try {
+    const health = await fetch(`${baseUrl}/health`);
+    check(health.ok && ((await health.json()) as any).ok === true, 'Health endpoint answers without auth');
+
+    const anonymous = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    check(anonymous.status === 401, 'Rejects requests without a token');
+
+    const client = new Client({ name: 'http-test-client', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+      requestInit: { headers: { Authorization: 'Bearer secret-token' } },
+    });
+    await client.connect(transport);
+    check(!!transport.sessionId, 'Authenticated client gets a session');
+
+    const { tools } = await client.listTools();
+    check(tools.some((tool) => tool.name === 'generate_image'), 'Lists tools over HTTP');
+
+    await transport.terminateSession();
+    await client.close();
+  } finally {
+    await new Promise<void>((resolve) => {
+      httpServer.close(() => resolve());
+      httpServer.closeAllConnections();
+    });
+  }
+
+  process.env.MCP_HTTP_PORT = 'http';
+  process.env.MCP_HTTP_SESSION_IDLE_MS = 'soon';
+  try {
+    const config = loadHttpServerConfig();
+    check(config.port === 3000 && config.sessionIdleMs === 1800000, 'Non-numeric HTTP settings fall back to the defaults');
+  } finally {
+    delete process.env.MCP_HTTP_PORT;
+    delete process.env.MCP_HTTP_SESSION_IDLE_MS;
+  }
+
+  // Without tokens, requests from other hosts or origins are refused
+  const openServer = await startHttpServer({ port: 0, host: '127.0.0.1', tokens: new Map(), sessionIdleMs: 60000 });
+  const openPort = (openServer.address() as AddressInfo).port;
+  const postStatus = (headers: Record<string, string>) => new Promise<number>((resolve, reject) => {
+    const req = http.request({
+      host: '127.0.0.1',
+      port: openPort,
+      path: '/mcp',
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+    }, (res) => {
+      res.resume();
+      resolve(res.statusCode || 0);
+    });
+    req.on('error', reject);
+    req.end(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }));
+  });
+
+  try {
+    check(await postStatus({ Host: 'attacker.example' }) === 403, 'Rejects a non-loopback Host without tokens');
+    check(
+      await postStatus({ Host: `localhost:${openPort}`, Origin: 'http://attacker.example' }) === 403,
+      'Rejects a non-loopback Origin without tokens'
+    );
+    check(
+      await postStatus({ Host: `127.0.0.1:${openPort}`, Origin: `http://localhost:${openPort}` }) !== 403,
+      'Accepts loopback Host and Origin without tokens'
+    );
+  } finally {
+    await new Promise<void>((resolve) => {
+      openServer.close(() => resolve());
+      openServer.closeAllConnections();
+    });
+  }
+}
+
+async function testMockProvider(): Promise<void> {
+  console.log('\n=== Testing mock provider ===\n');
+
+  const options = {
+    prompt: 'Deterministic test image',
+    style: 'flat',
+    size: '1024x1536',
+    background: 'transparent',
+    format: 'webp',
   };
 
-  console.log('\nOutput:', JSON.stringify(output, null, 2));
+  const provider = new MockProvider();
+  const first = await provider.generateImage(options);
+  const second = await provider.generateImage(options);
+  check(first.data === second.data, 'Same request produces identical images');
+
+  const dimensions = readImageDimensions(Buffer.from(first.data, 'base64'));
+  check(dimensions?.width === 1024 && dimensions?.height === 1536, 'Image is drawn at the requested size');
+
+  const other = await provider.generateImage({ ...options, prompt: 'Another prompt' });
+  check(other.data !== first.data, 'Different prompts produce different images');
+
+  process.env.MOCK_FAILURE = 'rate_limit';
+  try {
+    await new MockProvider().generateImage(options);
+    check(false, 'Simulated rate limit is raised');
+  } catch (error) {
+    check(error instanceof ProviderQuotaError && error.retryable, 'Simulated rate limit is raised as a retryable quota error');
+  } finally {
+    delete process.env.MOCK_FAILURE;
+  }
+
+  // With failures configured but a rate of 0, every request succeeds
+  process.env.MOCK_FAILURE = 'rate_limit';
+  process.env.MOCK_FAILURE_RATE = '0';
+  try {
+    const unaffected = await new MockProvider().generateImage(options);
+    process.env.MOCK_FAILURE_RATE = 'sometimes';
+    let failed = false;
+    await new MockProvider().generateImage(options).catch(() => (failed = true));
+    check(!!unaffected.data && failed, 'MOCK_FAILURE_RATE of 0 is kept and a non-numeric one falls back to 1');
+  } finally {
+    delete process.env.MOCK_FAILURE;
+    delete process.env.MOCK_FAILURE_RATE;
+  }
+}
+
+async function testGeminiRetry(): Promise<void> {
+  console.log('\n=== Testing Gemini retries and error classification ===\n');
+
+  const image = await new MockProvider().generateImage({ prompt: 'retry', size: '1024x1024' });
+  const responses = [
+    { status: 503, headers: { 'Retry-After': '0' }, body: { error: { message: 'overloaded' } } },
+    { status: 429, headers: {}, body: { error: { message: 'slow down', details: [{ retryDelay: '0.01s' }] } } },
+    { status: 200, headers: {}, body: { candidates: [{ content: { parts: [{ inlineData: { mimeType: 'image/png', data: image.data } }] } }] } },
+    { status: 401, headers: {}, body: { error: { message: 'API key not valid' } } },
+    { status: 200, headers: {}, body: { promptFeedback: { blockReason: 'SAFETY' } } },
+  ];
+  let requests = 0;
+
+  const server = http.createServer((req, res) => {
+    const response = responses[requests++] || responses[responses.length - 1];
+    req.resume();
+    res.writeHead(response.status, { 'Content-Type': 'application/json', ...response.headers });
+    res.end(JSON.stringify(response.body));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  const saved = { ...process.env };
+  process.env.GEMINI_API_KEY = 'test-key';
+  process.env.GEMINI_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  process.env.GEMINI_MAX_RETRIES = '2';
+
+  try {
+    const provider = new GeminiProvider();
+
+    const result = await provider.generateImage({ prompt: 'retry me' });
+    check(result.data === image.data && requests === 3, 'Retries 503 and 429 responses, then succeeds');
+
+    for (const [expected, label] of [[ProviderAuthError, 'auth'], [SafetyBlockedError, 'safety_blocked']] as const) {
+      try {
+        await provider.generateImage({ prompt: 'fail me' });
+        check(false, `Maps failure to ${label} error`);
+      } catch (error) {
+        check(error instanceof expected && (error as ProviderError).code === label, `Maps failure to ${label} error`);
+      }
+    }
+    check(requests === 5, 'Does not retry non-retryable errors');
+  } finally {
+    process.env = saved;
+    server.close();
+  }
+}
+
+async function testGenerationControls(client: Client): Promise<void> {
+  console.log('\n=== Testing advanced generation controls ===\n');
+
+  const read = async (output: any) => sharp(await fs.readFile(validateOutputPath(output.file_path))).raw().toBuffer();
+  const base = { prompt: 'A lighthouse', cache: 'bypass', provider: 'mock' };
+
+  const first = await callTool(client, 'generate_image', { ...base, seed: 7 });
+  const again = await callTool(client, 'generate_image', { ...base, seed: 7 });
+  const other = await callTool(client, 'generate_image', { ...base, seed: 8 });
+  check((await read(first)).equals(await read(again)) && !(await read(first)).equals(await read(other)), 'The same seed reproduces an image, another seed changes it');
+  check(first.ignored_options === undefined, 'Supported controls are not reported as ignored');
+
+  const several = await callTool(client, 'generate_image', { ...base, cache: 'use', candidate_count: 3 });
+  const candidateFiles = (several.candidates || []).map((candidate: any) => candidate.file_path);
+  check(
+    candidateFiles.length === 2 && candidateFiles[0] === several.file_path.replace(/\.png$/, '_2.png') && several.cache?.status === 'bypass',
+    'Extra candidates are saved next to the first and skip the cache'
+  );
+  check(!(await read(several)).equals(await read(several.candidates[0])), 'Candidates differ from each other');
+  const listed = await callTool(client, 'list_outputs', { tool: 'generate_image', limit: 10 });
+  check(
+    candidateFiles.every((file: string) => listed.files?.some((entry: any) => entry.file_path === file && entry.tool === 'generate_image')),
+    'list_outputs reports the tool of candidate files'
+  );
+
+  const warm = await callTool(client, 'generate_image', { ...base, temperature: 0.2, negative_prompt: 'boats' });
+  check(warm.ok === true && JSON.stringify(warm.ignored_options) === '["temperature"]', 'Reports controls the provider ignores');
+
+  check(sizeForAspectRatio('1:1') === '1024x1024' && sizeForAspectRatio('21:9') === '1568x672', 'Aspect ratios map to about a megapixel');
+  const wide = await callTool(client, 'generate_image', { ...base, aspect_ratio: '21:9' });
+  await checkImageOutput(wide, 1568, 672);
+  const hero = await callTool(client, 'generate_hero', { product_name: 'Beacon', tagline: 'Light the way', aspect_ratio: '4:5', provider: 'mock' });
+  const [heroWidth, heroHeight] = sizeForAspectRatio('4:5').split('x').map(Number);
+  check(hero.width === heroWidth && hero.height === heroHeight, 'generate_hero follows aspect_ratio');
+
+  for (const [args, field] of [[{ size: '1024x1024', aspect_ratio: '16:9' }, 'aspect_ratio'], [{ aspect_ratio: '10:1' }, 'aspect_ratio'], [{ candidate_count: 9 }, 'candidate_count']] as const) {
+    const result: any = await client.callTool({ name: 'generate_image', arguments: { ...base, ...args } });
+    const payload = result.isError ? JSON.parse(result.content[0].text) : {};
+    check(payload.code === 'invalid_arguments' && payload.details?.[0]?.field === field, `Rejects ${JSON.stringify(args)}: ${payload.error}`);
+  }
+
+  // Requests as the real providers send them
+  const image = await new MockProvider().generateImage({ prompt: 'candidate', size: '1024x1024' });
+  const bodies: Array<{ url: string; body: string }> = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      bodies.push({ url: req.url || '', body });
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(req.url?.includes('generateContent')
+        ? { candidates: [1, 2].map(() => ({ content: { parts: [{ inlineData: { mimeType: 'image/png', data: image.data } }] } })) }
+        : { data: [{ b64_json: image.data }, { b64_json: image.data }] }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  const saved = { ...process.env };
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const brandDir = await fs.mkdtemp(path.join(os.tmpdir(), 'banana-brands-'));
+  process.env.GEMINI_API_KEY = 'test-key';
+  process.env.GEMINI_BASE_URL = baseUrl;
+  process.env.OPENAI_BASE_URL = baseUrl;
+
+  try {
+    const options = { prompt: 'A lighthouse', size: '1568x672', seed: 7, temperature: 0.4, candidateCount: 2, negativePrompt: 'boats', aspectRatio: '21:9' };
+    const gemini = await new GeminiProvider().generateImage(options);
+    const request = JSON.parse(bodies[0].body);
+    check(
+      request.generationConfig.seed === 7 && request.generationConfig.temperature === 0.4 && request.generationConfig.candidateCount === 2
+        && request.generationConfig.imageConfig.aspectRatio === '21:9' && request.contents[0].parts[0].text.includes('Avoid: boats'),
+      'Gemini receives seed, temperature, candidate count, aspect ratio and negative guidance'
+    );
+    check(gemini.candidates?.length === 2 && gemini.usage?.images === 2, 'Gemini returns every candidate');
+
+    const openai = new OpenAIProvider();
+    const result = await openai.generateImage(options);
+    const body = JSON.parse(bodies[1].body);
+    check(body.n === 2 && body.prompt.includes('Avoid: boats') && body.seed === undefined, 'OpenAI maps candidate_count to n');
+    check(result.candidates?.length === 2 && !openai.getSupportedControls().includes('seed'), 'OpenAI returns every image and declares no seed support');
+
+    // Any input image makes an OpenAI call an edit, so brand images would have it edit the logo
+    await fs.writeFile(path.join(brandDir, 'logo.png'), Buffer.from(image.data, 'base64'));
+    await fs.writeFile(path.join(brandDir, 'styles.json'), JSON.stringify({ brands: { acme: { palette: ['#1e40af'], logo: 'logo.png' } } }));
+    process.env.STYLES_FILE = path.join(brandDir, 'styles.json');
+    process.env.OPENAI_API_KEY = 'test-key';
+    const openaiClient = await connectClient();
+    const branded = await callTool(openaiClient, 'generate_image', { prompt: 'A mug', brand: 'acme', cache: 'bypass', provider: 'openai' });
+    await openaiClient.close();
+    check(
+      bodies[2]?.url.endsWith('/generations') && JSON.stringify(branded.ignored_options) === '["reference_images"]',
+      'OpenAI generations leave brand images out and report them as ignored'
+    );
+  } finally {
+    process.env = saved;
+    server.close();
+    await fs.rm(brandDir, { recursive: true, force: true });
+  }
 }
 
 async function runTests() {
   console.log('╔════════════════════════════════════════════════════════╗');
   console.log('║  Image Beautifier MCP Server - Test Suite             ║');
   console.log('╚════════════════════════════════════════════════════════╝');
+  console.log(`\nProvider: ${process.env.IMAGE_PROVIDER || 'gemini'}`);
+
+  // Start from an empty generation cache, so every run calls the provider, and an empty usage ledger
+  const cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'banana-cache-'));
+  // Write outputs to a directory of their own, so runs don't pile up files in outputs/ or prune it
+  const outputsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'banana-outputs-'));
+  process.env.OUTPUT_DIR = outputsDir;
+  process.env.CACHE_DIR = cacheDir;
+  process.env.USAGE_LEDGER_FILE = path.join(cacheDir, 'usage.jsonl');
+  // The suite makes more calls per tool than the default per-minute limit allows
+  process.env.RATE_LIMIT_PER_MINUTE = '1000';
 
-  await testGenerateImage();
-  await testGenerateIcon();
-  await testGenerateHero();
-  await testBeautifyScreenshot();
+  const client = await connectClient();
+
+  const imagePath = await testGenerateImage(client);
+  await testEditImage(client, imagePath);
+  await testOutputFormats(client);
+  await testExactDimensions();
+  await testTransparentBackgrounds(client);
+  await testGenerateIcon(client);
+  await testIconSet(client);
+  await testGenerateBatch(client);
+  await testJobs(client);
+  await testCancellation();
+  await testGenerationCache(client);
+  await testUsage(client);
+  await testImageInfo(client);
+  await testOutputLibrary(client);
+  await testGenerateHero(client);
+  await testBeautifyScreenshot(client, imagePath);
+  await testResources(client, imagePath);
+  await testInlineImages(client);
+  await testPrompts(client);
+  await testStylePresets(client);
+  await testBrandKits(client);
+  await testGenerationControls(client);
+  await testErrorResults(client);
+  await testHttpTransport();
+  await testMockProvider();
+  await testGeminiRetry();
+  await testRateLimiter();
+  await testRetention();
+
+  await client.close();
+  await fs.rm(cacheDir, { recursive: true, force: true });
+  await fs.rm(outputsDir, { recursive: true, force: true });
 
   console.log('\n╔════════════════════════════════════════════════════════╗');
-  console.log('║  Tests Complete                                        ║');
+  console.log(failures === 0
+    ? '║  Tests Complete                                        ║'
+    : `║  Tests Complete: ${failures} failure(s)`.padEnd(57) + '║');
   console.log('╚════════════════════════════════════════════════════════╝\n');
+
+  if (failures > 0) {
+    process.exit(1);
+  }
 }
 
 runTests().catch((error) => {
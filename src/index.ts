@@ -1,15 +1,15 @@
 #!/usr/bin/env node
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { createMCPServer } from './mcp/server.js';
+import { loadHttpServerConfig, startHttpServer } from './mcp/http.js';
 import { logger } from './utils/log.js';
+import { loadRetentionPolicy, pruneOutputs } from './utils/files.js';
 import dotenv from 'dotenv';
 
 // Load environment variables
 dotenv.config();
 
-async function main() {
-  logger.info('Starting Image Beautifier MCP Server...');
-
+async function runStdio() {
   const server = createMCPServer();
   const transport = new StdioServerTransport();
 
@@ -17,16 +17,45 @@ async function main() {
 
   logger.info('MCP Server running on stdio');
 
+  return () => server.close();
+}
+
+async function runHttp() {
+  const config = loadHttpServerConfig();
+  const httpServer = await startHttpServer(config);
+
+  logger.info(`MCP Server running on http://${config.host}:${config.port}/mcp`, {
+    auth: config.tokens.size > 0 ? `${config.tokens.size} token(s)` : 'none',
+  });
+
+  return () => new Promise<void>((resolve) => {
+    httpServer.close(() => resolve());
+    httpServer.closeAllConnections();
+  });
+}
+
+async function main() {
+  logger.info('Starting Image Beautifier MCP Server...');
+
+  // Apply the outputs retention policy to whatever piled up while we were down
+  await pruneOutputs(loadRetentionPolicy()).catch((error) => {
+    logger.warn('Failed to prune outputs:', error);
+  });
+
+  // Stdio stays the default; HTTP mode is opt-in
+  const useHttp = process.argv.includes('--http') || process.env.MCP_TRANSPORT === 'http';
+  const close = useHttp ? await runHttp() : await runStdio();
+
   // Handle graceful shutdown
   process.on('SIGINT', async () => {
     logger.info('Shutting down...');
-    await server.close();
+    await close();
     process.exit(0);
   });
 
   process.on('SIGTERM', async () => {
     logger.info('Shutting down...');
-    await server.close();
+    await close();
     process.exit(0);
   });
 }
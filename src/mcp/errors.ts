@@ -0,0 +1,76 @@
+import { ZodError } from 'zod';
+import { ProviderError } from '../providers/errors.js';
+import { ToolError } from '../utils/errors.js';
+
+/**
+ * Error payload returned in the text block of a failed tool call
+ */
+export interface ToolErrorPayload {
+  ok: false;
+  error: string;
+  code: string;
+  retryable: boolean;
+  retry_after_ms?: number;
+  details?: unknown;
+  [key: string]: unknown;
+}
+
+/**
+ * Describe any thrown value as a structured error payload
+ * Unknown errors become 'internal_error' so callers always get a code
+ */
+export function toErrorPayload(error: unknown): ToolErrorPayload {
+  if (error instanceof ZodError) {
+    const details = error.issues.map((issue) => ({
+      field: issue.path.join('.') || '(root)',
+      message: issue.message,
+      issue: issue.code,
+    }));
+    return {
+      ok: false,
+      error: `Invalid arguments: ${details.map((d) => `${d.field}: ${d.message}`).join('; ')}`,
+      code: 'invalid_arguments',
+      retryable: false,
+      details,
+    };
+  }
+
+  if (error instanceof ToolError || error instanceof ProviderError) {
+    const payload: ToolErrorPayload = {
+      ok: false,
+      error: error.message,
+      code: error.code,
+      retryable: error.retryable,
+    };
+    if (error.retryAfterMs !== undefined) {
+      payload.retry_after_ms = Math.ceil(error.retryAfterMs);
+    }
+    if (error instanceof ToolError && error.details !== undefined) {
+      payload.details = error.details;
+    }
+    return payload;
+  }
+
+  return {
+    ok: false,
+    error: error instanceof Error ? error.message : 'Unknown error',
+    code: 'internal_error',
+    retryable: false,
+  };
+}
+
+/**
+ * Build an MCP tool result flagged with isError
+ * Extra fields (e.g. a suggested prompt) are merged into the payload
+ */
+export function buildErrorResult(error: unknown, extra: Record<string, unknown> = {}): any {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify({ ...toErrorPayload(error), ...extra }, null, 2),
+      },
+    ],
+    isError: true,
+  };
+}
@@ -0,0 +1,259 @@
+import http from 'http';
+import crypto from 'crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { createMCPServer, LOCAL_CLIENT_ID } from './server.js';
+import { logger } from '../utils/log.js';
+
+/**
+ * Streamable HTTP transport
+ *
+ * Serves MCP at /mcp so one shared instance can serve a whole team. Each MCP
+ * session gets its own Server; callers authenticate with a bearer token
+ * (Authorization: Bearer <token>) or an X-API-Key header.
+ */
+
+export interface HttpServerConfig {
+  port: number;
+  host: string;
+  /** Accepted tokens mapped to the client id they identify */
+  tokens: Map<string, string>;
+  sessionIdleMs: number;
+}
+
+interface Session {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  clientId: string;
+  lastSeen: number;
+}
+
+const MCP_PATH = '/mcp';
+const LOOPBACK_HOSTS = ['127.0.0.1', '::1', 'localhost'];
+
+/**
+ * Parse MCP_AUTH_TOKENS: comma-separated tokens, each optionally prefixed with "client-id:"
+ */
+export function parseAuthTokens(value: string | undefined): Map<string, string> {
+  const tokens = new Map<string, string>();
+  for (const entry of (value || '').split(',').map((item) => item.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const token = separator > 0 ? entry.slice(separator + 1) : entry;
+    const clientId = separator > 0
+      ? entry.slice(0, separator)
+      : `token-${crypto.createHash('sha256').update(token).digest('hex').slice(0, 8)}`;
+    tokens.set(token, clientId);
+  }
+  return tokens;
+}
+
+/**
+ * Read HTTP transport settings from the environment
+ */
+export function loadHttpServerConfig(): HttpServerConfig {
+  return {
+    port: Math.max(0, parseInt(process.env.MCP_HTTP_PORT || '3000', 10) || 3000),
+    host: process.env.MCP_HTTP_HOST || '127.0.0.1',
+    tokens: parseAuthTokens(process.env.MCP_AUTH_TOKENS),
+    sessionIdleMs: Math.max(1000, parseInt(process.env.MCP_HTTP_SESSION_IDLE_MS || '1800000', 10) || 1800000),
+  };
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, code: number, message: string, headers: Record<string, string> = {}): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null }, headers);
+}
+
+function headerHostname(value: string, withScheme: boolean): string | null {
+  try {
+    return new URL(withScheme ? value : `http://${value}`).hostname.replace(/^\[(.*)\]$/, '$1');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Without tokens, only accept requests addressed to and sent from a loopback
+ * name, so a web page can't reach the server through DNS rebinding
+ */
+function isLoopbackRequest(req: http.IncomingMessage): boolean {
+  const host = req.headers.host ? headerHostname(req.headers.host, false) : null;
+  if (!host || !LOOPBACK_HOSTS.includes(host)) {
+    return false;
+  }
+  const origin = req.headers.origin;
+  if (origin === undefined) {
+    return true;
+  }
+  const originHost = headerHostname(origin, true);
+  return !!originHost && LOOPBACK_HOSTS.includes(originHost);
+}
+
+/**
+ * Compare a presented token against the configured ones in constant time
+ */
+function authenticate(req: http.IncomingMessage, tokens: Map<string, string>): AuthInfo | null {
+  const header = req.headers.authorization;
+  const apiKey = req.headers['x-api-key'];
+  const presented = header?.startsWith('Bearer ')
+    ? header.slice('Bearer '.length).trim()
+    : typeof apiKey === 'string' ? apiKey.trim() : '';
+
+  if (!presented) {
+    return null;
+  }
+
+  const presentedDigest = crypto.createHash('sha256').update(presented).digest();
+  for (const [token, clientId] of tokens) {
+    const digest = crypto.createHash('sha256').update(token).digest();
+    if (crypto.timingSafeEqual(presentedDigest, digest)) {
+      return { token: presented, clientId, scopes: [] };
+    }
+  }
+  return null;
+}
+
+/**
+ * Start the HTTP server; resolves once it is listening
+ */
+export async function startHttpServer(config: HttpServerConfig): Promise<http.Server> {
+  if (config.tokens.size === 0) {
+    if (!LOOPBACK_HOSTS.includes(config.host)) {
+      throw new Error('MCP_AUTH_TOKENS must be set when binding HTTP mode to a non-loopback address');
+    }
+    logger.warn('HTTP mode running without authentication (MCP_AUTH_TOKENS is empty); only reachable from this machine');
+  }
+
+  const sessions = new Map<string, Session>();
+  const startedAt = Date.now();
+
+  const closeSession = async (sessionId: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    await session.server.close().catch(() => undefined);
+    logger.info('HTTP session closed:', { sessionId, clientId: session.clientId });
+  };
+
+  const handleMcpRequest = async (req: http.IncomingMessage & { auth?: AuthInfo }, res: http.ServerResponse) => {
+    const sessionId = req.headers['mcp-session-id'];
+
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      if (req.auth && req.auth.clientId !== session.clientId) {
+        sendJsonRpcError(res, 403, -32001, 'Session belongs to another client');
+        return;
+      }
+      session.lastSeen = Date.now();
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      sendJsonRpcError(res, 400, -32000, 'Missing Mcp-Session-Id header');
+      return;
+    }
+
+    // No session yet: this must be an initialize request, which the transport verifies
+    const clientId = req.auth?.clientId || LOCAL_CLIENT_ID;
+    const server = createMCPServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => crypto.randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { server, transport, clientId, lastSeen: Date.now() });
+        logger.info('HTTP session started:', { sessionId: id, clientId });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        void closeSession(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res);
+
+    if (!transport.sessionId) {
+      await server.close().catch(() => undefined);
+    }
+  };
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    try {
+      if (url.pathname === '/health' && req.method === 'GET') {
+        sendJson(res, 200, {
+          ok: true,
+          transport: 'streamable-http',
+          sessions: sessions.size,
+          uptime_s: Math.round((Date.now() - startedAt) / 1000),
+        });
+        return;
+      }
+
+      if (url.pathname !== MCP_PATH) {
+        sendJson(res, 404, { ok: false, error: 'Not found' });
+        return;
+      }
+
+      if (config.tokens.size > 0) {
+        const auth = authenticate(req, config.tokens);
+        if (!auth) {
+          sendJsonRpcError(res, 401, -32001, 'Unauthorized', { 'WWW-Authenticate': 'Bearer' });
+          return;
+        }
+        (req as http.IncomingMessage & { auth?: AuthInfo }).auth = auth;
+      } else if (!isLoopbackRequest(req)) {
+        sendJsonRpcError(res, 403, -32001, 'Forbidden: Host and Origin must be a loopback address');
+        return;
+      }
+
+      await handleMcpRequest(req, res);
+    } catch (error) {
+      logger.error('HTTP request failed:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  // Drop sessions that have been idle too long
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - config.sessionIdleMs;
+    for (const [id, session] of sessions) {
+      if (session.lastSeen < cutoff) {
+        void closeSession(id);
+      }
+    }
+  }, Math.min(config.sessionIdleMs, 60000));
+  sweep.unref();
+
+  httpServer.on('close', () => {
+    clearInterval(sweep);
+    for (const id of [...sessions.keys()]) {
+      void closeSession(id);
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(config.port, config.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  return httpServer;
+}
@@ -0,0 +1,236 @@
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { ToolError } from '../utils/errors.js';
+import { cancelledError, throwIfAborted } from '../utils/abort.js';
+import { logger } from '../utils/log.js';
+import { toErrorPayload, type ToolErrorPayload } from './errors.js';
+
+/**
+ * In-memory job queue for tool calls run in the background
+ *
+ * Slow generations can outlast a client's tool-call timeout, so tools called
+ * with `async: true` return a job id straight away and run here instead.
+ * Jobs live only as long as the process and are visible only to the client
+ * that submitted them.
+ */
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface JobProgress {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export type ProgressReporter = (progress: JobProgress) => void;
+
+/** Runs the tool and resolves with its MCP tool result */
+export type JobTask = (report: ProgressReporter) => Promise<any>;
+
+export interface Job {
+  id: string;
+  tool: string;
+  owner: string;
+  status: JobStatus;
+  progress: JobProgress;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  /** MCP tool result of a finished job */
+  result?: any;
+  error?: ToolErrorPayload;
+}
+
+export interface JobQueueConfig {
+  /** Most jobs queued or running at once */
+  maxQueued: number;
+  /** Most jobs running at once */
+  concurrency: number;
+  /** How long finished jobs can still be fetched */
+  retentionMs: number;
+  /** Most finished jobs kept; the oldest are dropped first */
+  maxFinished: number;
+}
+
+/**
+ * Read job queue settings from the environment
+ */
+export function loadJobQueueConfig(): JobQueueConfig {
+  return {
+    maxQueued: Math.max(1, parseInt(process.env.JOB_QUEUE_MAX || '50', 10) || 50),
+    concurrency: Math.max(1, parseInt(process.env.JOB_CONCURRENCY || '2', 10) || 2),
+    retentionMs: Math.max(0, parseInt(process.env.JOB_RETENTION_MS || '3600000', 10) || 3600000),
+    maxFinished: Math.max(1, parseInt(process.env.JOB_RETENTION_MAX || '100', 10) || 100),
+  };
+}
+
+function isFinished(job: Job): boolean {
+  return job.status === 'succeeded' || job.status === 'failed';
+}
+
+export class JobQueue {
+  private jobs = new Map<string, Job>();
+  private pending: Array<{ job: Job; task: JobTask }> = [];
+  private running = 0;
+  private events = new EventEmitter();
+
+  constructor(private config: JobQueueConfig) {
+    this.events.setMaxListeners(0);
+  }
+
+  /**
+   * Queue a task; throws queue_full when the queue is at capacity
+   */
+  submit(owner: string, tool: string, task: JobTask): Job {
+    this.prune();
+
+    const active = [...this.jobs.values()].filter((job) => !isFinished(job)).length;
+    if (active >= this.config.maxQueued) {
+      throw new ToolError('queue_full', `Job queue is full (${this.config.maxQueued} jobs queued or running)`, {
+        retryable: true,
+      });
+    }
+
+    const job: Job = {
+      id: crypto.randomUUID(),
+      tool,
+      owner,
+      status: 'queued',
+      progress: { progress: 0, message: 'Queued' },
+      createdAt: new Date(),
+    };
+    this.jobs.set(job.id, job);
+    this.pending.push({ job, task });
+    logger.info('Job queued:', { id: job.id, tool, owner });
+
+    this.pump();
+    return job;
+  }
+
+  /**
+   * Look up a job; jobs of other clients are reported as missing
+   */
+  get(id: string, owner: string): Job {
+    this.prune();
+
+    const job = this.jobs.get(id);
+    if (!job || job.owner !== owner) {
+      throw new ToolError('not_found', `Job not found: ${id}`);
+    }
+    return job;
+  }
+
+  /**
+   * Jobs of one client, newest first
+   */
+  list(owner: string, status?: JobStatus): Job[] {
+    this.prune();
+
+    return [...this.jobs.values()]
+      .filter((job) => job.owner === owner && (!status || job.status === status))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Wait until a job finishes or timeoutMs passes, whichever comes first
+   * onProgress is called on every progress update in between. An aborted
+   * signal stops the wait with the cancellation error; the job keeps running.
+   */
+  async wait(
+    id: string,
+    owner: string,
+    timeoutMs: number,
+    onProgress?: ProgressReporter,
+    signal?: AbortSignal
+  ): Promise<Job> {
+    const job = this.get(id, owner);
+    if (isFinished(job)) {
+      return job;
+    }
+    throwIfAborted(signal);
+
+    return new Promise((resolve, reject) => {
+      const onUpdate = (updated: Job) => {
+        if (updated.id !== id) return;
+        onProgress?.(updated.progress);
+        if (isFinished(updated)) finish();
+      };
+      const onAbort = () => {
+        cleanup();
+        reject(cancelledError());
+      };
+      const cleanup = () => {
+        clearTimeout(timer);
+        this.events.off('update', onUpdate);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const finish = () => {
+        cleanup();
+        resolve(job);
+      };
+      const timer = setTimeout(finish, timeoutMs);
+      this.events.on('update', onUpdate);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private update(job: Job, changes: Partial<Job>): void {
+    Object.assign(job, changes);
+    this.events.emit('update', job);
+  }
+
+  private pump(): void {
+    while (this.running < this.config.concurrency && this.pending.length > 0) {
+      const { job, task } = this.pending.shift()!;
+      this.running++;
+      void this.run(job, task).finally(() => {
+        this.running--;
+        this.pump();
+      });
+    }
+  }
+
+  private async run(job: Job, task: JobTask): Promise<void> {
+    this.update(job, { status: 'running', startedAt: new Date(), progress: { progress: 0, message: 'Running' } });
+
+    try {
+      const result = await task((progress) => this.update(job, { progress }));
+      if (result?.isError) {
+        const error = JSON.parse(result.content?.[0]?.text || '{}') as ToolErrorPayload;
+        this.update(job, { status: 'failed', finishedAt: new Date(), error });
+      } else {
+        this.update(job, {
+          status: 'succeeded',
+          finishedAt: new Date(),
+          result,
+          progress: { progress: job.progress.total ?? 1, total: job.progress.total ?? 1, message: 'Done' },
+        });
+      }
+    } catch (error) {
+      logger.error(`Job ${job.id} (${job.tool}) failed:`, error);
+      this.update(job, { status: 'failed', finishedAt: new Date(), error: toErrorPayload(error) });
+    }
+
+    logger.info('Job finished:', { id: job.id, tool: job.tool, status: job.status });
+  }
+
+  /**
+   * Forget finished jobs past the retention period, and the oldest ones past maxFinished
+   * Results can hold inline images, so their number is capped as well as their age
+   */
+  private prune(): void {
+    const cutoff = Date.now() - this.config.retentionMs;
+    for (const [id, job] of this.jobs) {
+      if (job.finishedAt && job.finishedAt.getTime() < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+
+    const finished = [...this.jobs.values()]
+      .filter(isFinished)
+      .sort((a, b) => a.finishedAt!.getTime() - b.finishedAt!.getTime());
+    for (const job of finished.slice(0, Math.max(0, finished.length - this.config.maxFinished))) {
+      this.jobs.delete(job.id);
+    }
+  }
+}
@@ -0,0 +1,282 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../utils/log.js';
+import { resolveProjectPath } from '../utils/paths.js';
+import { applyPresetPrompt, getThemePreset, listThemeNames } from '../utils/presets.js';
+
+/**
+ * Reusable design prompt templates, exposed through MCP prompts/list and prompts/get
+ *
+ * Built-in templates live here; more can be added as JSON files in PROMPTS_DIR.
+ */
+
+export interface PromptTemplateArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+  enum?: string[];
+  default?: string;
+}
+
+export interface PromptTemplate {
+  name: string;
+  description: string;
+  arguments: PromptTemplateArgument[];
+  /** Build the image prompt from validated arguments */
+  render: (args: Record<string, string>) => string;
+  /** Tool the rendered prompt is meant for, and the arguments to pass along with it */
+  tool: string;
+  toolArguments: Record<string, unknown>;
+}
+
+// Prompt recipes shared with the generate_icon and generate_hero tools
+
+/**
+ * Icon prompt in the look of a theme preset
+ */
+export function buildIconPrompt(concept: string, theme: string): string {
+  const prompt = `An icon representing: ${concept}. Icon design, centered, clean background.`;
+  const preset = getThemePreset(theme);
+  return preset ? applyPresetPrompt(prompt, preset) : `${theme}, ${prompt}`;
+}
+
+export function buildHeroPrompt(productName: string, tagline: string, vibe?: string): string {
+  const vibeText = vibe ? `, ${vibe} vibe` : '';
+  return `Hero banner image for "${productName}". ${tagline}${vibeText}. Professional, eye-catching, suitable for website header.`;
+}
+
+// A function, so the theme enum follows the presets
+function builtinTemplates(): PromptTemplate[] {
+  return [
+    {
+      name: 'icon',
+      description: 'App or feature icon on a transparent background',
+      arguments: [
+        { name: 'concept', description: 'What the icon represents', required: true },
+        { name: 'theme', description: 'Icon theme', enum: listThemeNames(), default: 'minimal' },
+      ],
+      render: (args) => buildIconPrompt(args.concept, args.theme),
+      tool: 'generate_image',
+      toolArguments: { style: 'flat', size: '1024x1024', background: 'transparent' },
+    },
+    {
+      name: 'hero',
+      description: 'Hero/banner image for a product or website header',
+      arguments: [
+        { name: 'product_name', description: 'Name of the product or website', required: true },
+        { name: 'tagline', description: 'Product tagline or description', required: true },
+        { name: 'vibe', description: 'Mood/vibe, e.g. "modern", "playful"' },
+      ],
+      render: (args) => buildHeroPrompt(args.product_name, args.tagline, args.vibe),
+      tool: 'generate_image',
+      toolArguments: { style: 'photoreal', size: '1536x1024', background: 'solid' },
+    },
+    {
+      name: 'app_store_screenshot',
+      description: 'Marketing screenshot for an app store listing, with device frame and headline',
+      arguments: [
+        { name: 'app_name', description: 'Name of the app', required: true },
+        { name: 'feature', description: 'Feature the screenshot highlights', required: true },
+        { name: 'device', description: 'Device shown in the frame', enum: ['phone', 'tablet'], default: 'phone' },
+        { name: 'color_scheme', description: 'Background colors, e.g. "soft purple gradient"' },
+      ],
+      render: (args) => {
+        const colors = args.color_scheme ? ` on a ${args.color_scheme} background` : ' on a clean gradient background';
+        return `App store screenshot for "${args.app_name}" showcasing ${args.feature}. A modern ${args.device} mockup displaying the app UI${colors}, with a short bold headline above the device. Polished marketing style, crisp UI details, plenty of breathing room.`;
+      },
+      tool: 'generate_image',
+      toolArguments: { style: 'flat', size: '1024x1536', background: 'solid' },
+    },
+    {
+      name: 'empty_state_illustration',
+      description: 'Friendly spot illustration for an empty list, inbox or search result',
+      arguments: [
+        { name: 'context', description: 'What is empty, e.g. "no messages yet", "no search results"', required: true },
+        { name: 'mood', description: 'Tone of the illustration', enum: ['friendly', 'calm', 'playful'], default: 'friendly' },
+      ],
+      render: (args) =>
+        `A ${args.mood} empty-state illustration for "${args.context}". Simple spot illustration with one clear central subject, soft limited color palette, generous negative space, no text.`,
+      tool: 'generate_image',
+      toolArguments: { style: 'flat', size: '1024x1024', background: 'transparent' },
+    },
+    {
+      name: 'not_found_page',
+      description: 'Illustration for a 404 "page not found" page',
+      arguments: [
+        { name: 'product_name', description: 'Product or site the page belongs to' },
+        { name: 'concept', description: 'Visual metaphor, e.g. "astronaut lost in space"', default: 'a lost explorer looking at a blank map' },
+      ],
+      render: (args) => {
+        const product = args.product_name ? ` for "${args.product_name}"` : '';
+        return `404 page not found illustration${product}: ${args.concept}. Whimsical, lighthearted scene with a large stylized "404" integrated into the composition, wide layout with empty space for a message and button.`;
+      },
+      tool: 'generate_image',
+      toolArguments: { style: 'illustration', size: '1536x1024', background: 'solid' },
+    },
+  ];
+}
+
+// Templates loaded from PROMPTS_DIR
+
+const configTemplateSchema = z.object({
+  name: z.string().regex(/^[a-z0-9_-]+$/i).max(64),
+  description: z.string().max(500),
+  arguments: z
+    .array(
+      z.object({
+        name: z.string().regex(/^[a-z0-9_]+$/i),
+        description: z.string().default(''),
+        required: z.boolean().optional(),
+        enum: z.array(z.string()).optional(),
+        default: z.string().optional(),
+      })
+    )
+    .default([]),
+  template: z.string().min(1),
+  tool: z.string().default('generate_image'),
+  tool_arguments: z.record(z.unknown()).default({}),
+});
+
+/**
+ * Fill {{name}} placeholders; {{#name}}...{{/name}} is kept only when name is set
+ */
+export function renderTemplate(template: string, args: Record<string, string>): string {
+  return template
+    .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_, name: string, body: string) => (args[name] ? body : ''))
+    .replace(/\{\{(\w+)\}\}/g, (_, name: string) => args[name] ?? '');
+}
+
+async function loadConfigTemplates(): Promise<PromptTemplate[]> {
+  if (!process.env.PROMPTS_DIR) {
+    return [];
+  }
+  const dir = resolveProjectPath(process.env.PROMPTS_DIR);
+
+  let files: string[];
+  try {
+    files = (await fs.readdir(dir)).filter((file) => file.endsWith('.json')).sort();
+  } catch (error) {
+    logger.warn('Unable to read PROMPTS_DIR:', dir, error instanceof Error ? error.message : error);
+    return [];
+  }
+
+  const templates: PromptTemplate[] = [];
+  for (const file of files) {
+    try {
+      const raw = JSON.parse(await fs.readFile(path.join(dir, file), 'utf-8'));
+      for (const entry of Array.isArray(raw) ? raw : [raw]) {
+        const config = configTemplateSchema.parse(entry);
+        templates.push({
+          name: config.name,
+          description: config.description,
+          arguments: config.arguments,
+          render: (args) => renderTemplate(config.template, args),
+          tool: config.tool,
+          toolArguments: config.tool_arguments,
+        });
+      }
+    } catch (error) {
+      logger.warn(`Skipping invalid prompt template file ${file}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return templates;
+}
+
+/**
+ * All templates; config templates override built-ins with the same name
+ */
+export async function listPromptTemplates(): Promise<PromptTemplate[]> {
+  const templates = new Map<string, PromptTemplate>();
+  for (const template of [...builtinTemplates(), ...(await loadConfigTemplates())]) {
+    templates.set(template.name, template);
+  }
+  return [...templates.values()];
+}
+
+/**
+ * Apply defaults and check required and enum arguments
+ */
+function resolveArguments(template: PromptTemplate, args: Record<string, string>): Record<string, string> {
+  const resolved: Record<string, string> = {};
+
+  for (const argument of template.arguments) {
+    const value = args[argument.name]?.trim() || argument.default;
+
+    if (!value) {
+      if (argument.required) {
+        throw new McpError(ErrorCode.InvalidParams, `Missing required argument: ${argument.name}`);
+      }
+      continue;
+    }
+    if (argument.enum && !argument.enum.includes(value)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid value for ${argument.name}: ${value}. Expected one of: ${argument.enum.join(', ')}`
+      );
+    }
+    resolved[argument.name] = value;
+  }
+
+  return resolved;
+}
+
+function describeArgument(argument: PromptTemplateArgument): string {
+  const parts = [argument.description];
+  if (argument.enum) parts.push(`One of: ${argument.enum.join(', ')}.`);
+  if (argument.default) parts.push(`Default: ${argument.default}.`);
+  return parts.filter(Boolean).join(' ');
+}
+
+/**
+ * Register prompts/list and prompts/get handlers
+ */
+export function registerPromptHandlers(server: Server): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    const templates = await listPromptTemplates();
+    return {
+      prompts: templates.map((template) => ({
+        name: template.name,
+        description: template.description,
+        arguments: template.arguments.map((argument) => ({
+          name: argument.name,
+          description: describeArgument(argument),
+          required: !!argument.required,
+        })),
+      })),
+    };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    const template = (await listPromptTemplates()).find((t) => t.name === name);
+    if (!template) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    const prompt = template.render(resolveArguments(template, args || {}));
+    // Keep prompt first in the output but never let tool arguments replace it
+    const toolArguments = Object.assign({ prompt }, template.toolArguments, { prompt });
+
+    return {
+      description: template.description,
+      messages: [
+        {
+          role: 'user',
+          content: {
+            type: 'text',
+            text: `Use the ${template.tool} tool with these arguments:\n\n${JSON.stringify(toolArguments, null, 2)}`,
+          },
+        },
+      ],
+    };
+  });
+}
@@ -0,0 +1,220 @@
+import fs from 'fs';
+import path from 'path';
+import { ToolError } from '../utils/errors.js';
+import { resolveProjectPath } from '../utils/paths.js';
+import { logger } from '../utils/log.js';
+
+/**
+ * Token-bucket rate limiting for tool calls
+ *
+ * Every call takes one token from each budget it falls under: a global one,
+ * one per tool and one per client (or session). Buckets hold a minute's
+ * worth of tokens and refill continuously, so short bursts are allowed while
+ * the average rate stays at the limit. Bucket levels can be persisted to a
+ * file so a restart doesn't hand out a fresh budget.
+ */
+
+export type RateLimitScope = 'global' | 'tool' | 'client';
+
+export interface RateLimitConfig {
+  /** Calls per minute across all tools and clients; 0 disables */
+  globalPerMinute: number;
+  /** Calls per minute per tool, unless overridden in `tools` */
+  toolPerMinute: number;
+  /** Per-tool overrides, e.g. { generate_hero: 5 } */
+  tools: Record<string, number>;
+  /** Calls per minute per client or session; 0 disables */
+  clientPerMinute: number;
+  /** Whether client budgets are shared by all sessions of a client */
+  clientScope: 'client' | 'session';
+  /** File the bucket levels are saved to; in memory only when unset */
+  stateFile?: string;
+}
+
+export interface RateLimitCaller {
+  tool: string;
+  clientId: string;
+  sessionId?: string;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+const MINUTE_MS = 60000;
+
+/**
+ * Parse "tool=limit" pairs, e.g. "generate_hero=5,generate_icon=60"
+ */
+function parseToolLimits(value: string): Record<string, number> {
+  const limits: Record<string, number> = {};
+  for (const pair of value.split(',')) {
+    const [tool, limit] = pair.split('=').map((part) => part.trim());
+    const parsed = parseInt(limit, 10);
+    if (tool && Number.isFinite(parsed) && parsed >= 0) {
+      limits[tool] = parsed;
+    } else if (pair.trim()) {
+      logger.warn('Ignoring invalid RATE_LIMIT_TOOLS entry:', pair);
+    }
+  }
+  return limits;
+}
+
+/**
+ * Read rate limit settings from the environment
+ */
+export function loadRateLimitConfig(): RateLimitConfig {
+  return {
+    globalPerMinute: Math.max(0, parseInt(process.env.RATE_LIMIT_GLOBAL_PER_MINUTE || '0', 10) || 0),
+    toolPerMinute: Math.max(0, parseInt(process.env.RATE_LIMIT_PER_MINUTE || '20', 10) || 0),
+    tools: parseToolLimits(process.env.RATE_LIMIT_TOOLS || ''),
+    clientPerMinute: Math.max(0, parseInt(process.env.RATE_LIMIT_CLIENT_PER_MINUTE || '0', 10) || 0),
+    clientScope: process.env.RATE_LIMIT_CLIENT_SCOPE === 'session' ? 'session' : 'client',
+    stateFile: process.env.RATE_LIMIT_STATE_FILE ? resolveProjectPath(process.env.RATE_LIMIT_STATE_FILE) : undefined,
+  };
+}
+
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  constructor(private config: RateLimitConfig) {
+    this.load();
+  }
+
+  /**
+   * Take a token from every budget the call falls under
+   *
+   * Throws rate_limited, with the wait until all of them have a token again,
+   * if any is empty; nothing is taken in that case. Returns a function that
+   * gives the tokens back, for calls that were cancelled.
+   */
+  acquire(caller: RateLimitCaller): () => void {
+    const now = Date.now();
+    const budgets = this.budgetsFor(caller);
+    let blocked: { scope: RateLimitScope; limit: number; waitMs: number } | undefined;
+
+    for (const budget of budgets) {
+      const bucket = this.refill(budget.key, budget.limit, now);
+      if (bucket.tokens < 1) {
+        const waitMs = ((1 - bucket.tokens) * MINUTE_MS) / budget.limit;
+        if (!blocked || waitMs > blocked.waitMs) {
+          blocked = { scope: budget.scope, limit: budget.limit, waitMs };
+        }
+      }
+    }
+
+    if (blocked) {
+      const target = blocked.scope === 'tool' ? caller.tool : blocked.scope === 'client' ? 'this client' : 'all tools';
+      throw new ToolError(
+        'rate_limited',
+        `Rate limit exceeded for ${target}: max ${blocked.limit} requests per minute. Retry in ${Math.ceil(blocked.waitMs / 1000)}s`,
+        { retryable: true, retryAfterMs: blocked.waitMs, details: { scope: blocked.scope, limit_per_minute: blocked.limit } }
+      );
+    }
+
+    for (const budget of budgets) {
+      this.buckets.get(budget.key)!.tokens -= 1;
+    }
+    this.save();
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      for (const budget of budgets) {
+        const bucket = this.refill(budget.key, budget.limit, Date.now());
+        bucket.tokens = Math.min(budget.limit, bucket.tokens + 1);
+      }
+      this.save();
+    };
+  }
+
+  private budgetsFor(caller: RateLimitCaller): Array<{ key: string; scope: RateLimitScope; limit: number }> {
+    const budgets: Array<{ key: string; scope: RateLimitScope; limit: number }> = [];
+
+    if (this.config.globalPerMinute > 0) {
+      budgets.push({ key: 'global', scope: 'global', limit: this.config.globalPerMinute });
+    }
+
+    const toolLimit = this.config.tools[caller.tool] ?? this.config.toolPerMinute;
+    if (toolLimit > 0) {
+      budgets.push({ key: `tool:${caller.tool}`, scope: 'tool', limit: toolLimit });
+    }
+
+    if (this.config.clientPerMinute > 0) {
+      const key = this.config.clientScope === 'session' && caller.sessionId
+        ? `session:${caller.sessionId}`
+        : `client:${caller.clientId}`;
+      budgets.push({ key, scope: 'client', limit: this.config.clientPerMinute });
+    }
+
+    return budgets;
+  }
+
+  /**
+   * Bring a bucket up to date; new buckets start full
+   */
+  private refill(key: string, limit: number, now: number): Bucket {
+    const bucket = this.buckets.get(key);
+    if (!bucket) {
+      const fresh = { tokens: limit, updatedAt: now };
+      this.buckets.set(key, fresh);
+      return fresh;
+    }
+
+    const elapsed = Math.max(0, now - bucket.updatedAt);
+    bucket.tokens = Math.min(limit, bucket.tokens + (elapsed * limit) / MINUTE_MS);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  private load(): void {
+    if (!this.config.stateFile) return;
+
+    try {
+      const state = JSON.parse(fs.readFileSync(this.config.stateFile, 'utf-8')) as Record<string, Bucket>;
+      for (const [key, bucket] of Object.entries(state)) {
+        if (typeof bucket?.tokens === 'number' && typeof bucket?.updatedAt === 'number') {
+          this.buckets.set(key, { tokens: bucket.tokens, updatedAt: bucket.updatedAt });
+        }
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn('Failed to load rate limit state, starting with full budgets:', error);
+      }
+    }
+  }
+
+  /**
+   * Write the bucket levels, if persistence is on
+   * Full buckets are left out; they are the default anyway
+   */
+  private save(): void {
+    if (!this.config.stateFile) return;
+
+    const now = Date.now();
+    const state: Record<string, Bucket> = {};
+    for (const [key, bucket] of this.buckets) {
+      const limit = this.limitFor(key);
+      if (limit > 0 && bucket.tokens + ((now - bucket.updatedAt) * limit) / MINUTE_MS < limit) {
+        state[key] = bucket;
+      }
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.config.stateFile), { recursive: true });
+      const tempFile = `${this.config.stateFile}.tmp`;
+      fs.writeFileSync(tempFile, JSON.stringify(state));
+      fs.renameSync(tempFile, this.config.stateFile);
+    } catch (error) {
+      logger.warn('Failed to save rate limit state:', error);
+    }
+  }
+
+  private limitFor(key: string): number {
+    if (key === 'global') return this.config.globalPerMinute;
+    if (key.startsWith('tool:')) return this.config.tools[key.slice(5)] ?? this.config.toolPerMinute;
+    return this.config.clientPerMinute;
+  }
+}
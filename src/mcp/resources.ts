@@ -0,0 +1,112 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { getMimeType, listOutputFiles, onOutputsChanged } from '../utils/files.js';
+import { safeJoinOutputs } from '../utils/paths.js';
+import { logger } from '../utils/log.js';
+
+/**
+ * MCP resources over the outputs directory
+ *
+ * Every file in outputs/ is exposed as outputs://{filename}, so clients that
+ * cannot reach our filesystem can still fetch generated images.
+ */
+
+const URI_PREFIX = 'outputs://';
+const PAGE_SIZE = 100;
+
+/**
+ * Build the resource URI for a file in the outputs directory
+ */
+export function toResourceUri(filename: string): string {
+  return `${URI_PREFIX}${encodeURIComponent(filename)}`;
+}
+
+function fromResourceUri(uri: string): string {
+  if (!uri.startsWith(URI_PREFIX)) {
+    throw new McpError(ErrorCode.InvalidParams, `Unsupported resource URI: ${uri}`);
+  }
+  return decodeURIComponent(uri.slice(URI_PREFIX.length));
+}
+
+function mimeTypeFor(filename: string): string {
+  return getMimeType(path.extname(filename).slice(1));
+}
+
+function isTextMimeType(mimeType: string): boolean {
+  return mimeType.startsWith('text/') || mimeType === 'application/json' || mimeType === 'image/svg+xml';
+}
+
+/**
+ * Register resources/list, resources/read and resources/templates/list handlers
+ * and announce list changes whenever a tool writes, renames or deletes an output file
+ */
+export function registerResourceHandlers(server: Server): void {
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    const files = await listOutputFiles();
+    const offset = Math.max(0, parseInt(request.params?.cursor || '0', 10) || 0);
+    const page = files.slice(offset, offset + PAGE_SIZE);
+
+    return {
+      resources: page.map((file) => ({
+        uri: toResourceUri(file.filename),
+        name: file.filename,
+        mimeType: mimeTypeFor(file.filename),
+        size: file.size,
+      })),
+      nextCursor: offset + PAGE_SIZE < files.length ? String(offset + PAGE_SIZE) : undefined,
+    };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: [
+        {
+          uriTemplate: `${URI_PREFIX}{filename}`,
+          name: 'Output file',
+          description: 'A generated image or other file in the outputs directory',
+        },
+      ],
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    const filePath = safeJoinOutputs(fromResourceUri(uri));
+    const mimeType = mimeTypeFor(filePath);
+
+    let buffer: Buffer;
+    try {
+      buffer = await fs.readFile(filePath);
+    } catch {
+      throw new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+    }
+
+    return {
+      contents: [
+        isTextMimeType(mimeType)
+          ? { uri, mimeType, text: buffer.toString('utf-8') }
+          : { uri, mimeType, blob: buffer.toString('base64') },
+      ],
+    };
+  });
+
+  const unsubscribe = onOutputsChanged(() => {
+    server.sendResourceListChanged().catch((error) => {
+      logger.debug('Failed to send resources/list_changed:', error);
+    });
+  });
+
+  const previousOnClose = server.onclose;
+  server.onclose = () => {
+    unsubscribe();
+    previousOnClose?.();
+  };
+}
@@ -1,9 +1,111 @@
 import { z } from 'zod';
+import { listBrandNames, listStyleNames, listThemeNames } from '../utils/presets.js';
 
 /**
  * Tool schemas for MCP server
  */
 
+const PROVIDER_PROPERTY = {
+  type: 'string',
+  description: 'Image provider to use (e.g. "gemini", "openai"). Defaults to the IMAGE_PROVIDER setting',
+};
+
+const OUTPUT_FORMAT_PROPERTY = {
+  type: 'string',
+  enum: ['png', 'webp', 'jpeg', 'avif'],
+  description: 'Output file format; the image is transcoded to it',
+  default: 'png',
+};
+
+const FIT_PROPERTY = {
+  type: 'string',
+  enum: ['cover', 'contain', 'fill'],
+  description: 'How the provider image is brought to the exact output size: cover crops to fill, contain pads, fill stretches',
+  default: 'cover',
+};
+
+const QUALITY_PROPERTY = {
+  type: 'integer',
+  minimum: 1,
+  maximum: 100,
+  description: 'Encoding quality for webp, jpeg and avif (defaults: 90, 90, 60)',
+};
+
+const RETURN_IMAGE_PROPERTY = {
+  type: 'boolean',
+  description: 'Also return the image inline as an MCP image block (a downscaled preview if the file is large). Defaults to the INLINE_IMAGES setting',
+};
+
+const ASYNC_PROPERTY = {
+  type: 'boolean',
+  description: 'Run in the background: return a job_id immediately and fetch the result with wait_job or get_job',
+  default: false,
+};
+
+/**
+ * A string property whose enum is read each time tools are listed, so it follows the loaded presets
+ * An empty list reads as undefined, which JSON leaves out, since an empty enum accepts nothing
+ */
+function presetProperty(names: () => string[], fields: Record<string, unknown> = {}): Record<string, unknown> {
+  const get = () => {
+    const list = names();
+    return list.length > 0 ? list : undefined;
+  };
+  return Object.defineProperty({ type: 'string', ...fields }, 'enum', { get, enumerable: true });
+}
+
+const BRAND_PROPERTY = presetProperty(listBrandNames, {
+  description: 'Brand kit (see list_styles): its palette, typography, tone and rules are added to the prompt and its logo and reference images are sent along',
+});
+
+const PALETTE_CHECK_PROPERTY = {
+  type: 'boolean',
+  description: 'Score the output against the brand palette and report whether it reaches the kit\'s min_palette_score (needs brand)',
+  default: false,
+};
+
+const SEED_PROPERTY = {
+  type: 'integer',
+  minimum: 0,
+  maximum: 2147483647,
+  description: 'Seed for reproducible results, on providers that support one',
+};
+
+const TEMPERATURE_PROPERTY = {
+  type: 'number',
+  minimum: 0,
+  maximum: 2,
+  description: 'Sampling temperature: lower is more predictable, higher more varied',
+};
+
+const CANDIDATE_COUNT_PROPERTY = {
+  type: 'integer',
+  minimum: 1,
+  maximum: 4,
+  description: 'Images to generate in one request; the extra ones are saved next to the first and listed in candidates',
+  default: 1,
+};
+
+const NEGATIVE_PROMPT_PROPERTY = {
+  type: 'string',
+  minLength: 1,
+  maxLength: 1000,
+  description: 'What the image should avoid',
+};
+
+const ASPECT_RATIO_PROPERTY = {
+  type: 'string',
+  pattern: '^\\d{1,3}:\\d{1,3}$',
+  description: 'Free-form aspect ratio W:H between 1:4 and 4:1, e.g. "21:9"; the output is about a megapixel in that shape. Use this or size',
+};
+
+const CACHE_PROPERTY = {
+  type: 'string',
+  enum: ['use', 'refresh', 'bypass'],
+  description: 'Generation cache: use returns the image of an identical earlier call without calling the provider, refresh regenerates and updates the cache, bypass ignores it',
+  default: 'use',
+};
+
 export const GENERATE_IMAGE_SCHEMA = {
   name: 'generate_image',
   description: 'Generate an image from a text prompt with customizable style, size, and format',
@@ -16,42 +118,108 @@ export const GENERATE_IMAGE_SCHEMA = {
         minLength: 1,
         maxLength: 2000,
       },
-      style: {
-        type: 'string',
-        enum: ['illustration', '3d', 'flat', 'photoreal', 'anime', 'pixel'],
-        description: 'Visual style of the image',
+      style: presetProperty(listStyleNames, {
+        description: 'Visual style preset (see list_styles); it may also set the default size and background',
         default: 'illustration',
-      },
+      }),
       size: {
         type: 'string',
         enum: ['1024x1024', '1024x1536', '1536x1024'],
-        description: 'Image dimensions',
-        default: '1024x1024',
+        description: 'Image dimensions (default: the style\'s size, otherwise 1024x1024)',
       },
       background: {
         type: 'string',
         enum: ['transparent', 'solid'],
-        description: 'Background type',
-        default: 'solid',
+        description: 'Background type; transparent produces a real alpha channel by keying out a flat backdrop (default: the style\'s background, otherwise solid)',
       },
-      output_format: {
+      output_format: OUTPUT_FORMAT_PROPERTY,
+      fit: FIT_PROPERTY,
+      quality: QUALITY_PROPERTY,
+      cache: CACHE_PROPERTY,
+      aspect_ratio: ASPECT_RATIO_PROPERTY,
+      seed: SEED_PROPERTY,
+      temperature: TEMPERATURE_PROPERTY,
+      candidate_count: CANDIDATE_COUNT_PROPERTY,
+      negative_prompt: NEGATIVE_PROMPT_PROPERTY,
+      brand: BRAND_PROPERTY,
+      palette_check: PALETTE_CHECK_PROPERTY,
+      provider: PROVIDER_PROPERTY,
+      return_image: RETURN_IMAGE_PROPERTY,
+      async: ASYNC_PROPERTY,
+      output_path: {
         type: 'string',
-        enum: ['png', 'webp'],
-        description: 'Output file format',
-        default: 'png',
+        description: 'Optional custom filename (must be in outputs/ directory)',
+      },
+    },
+    required: ['prompt'],
+  },
+};
+
+export const EDIT_IMAGE_SCHEMA = {
+  name: 'edit_image',
+  description: 'Edit or composite existing images from a text instruction, with optional mask and reference images',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      prompt: {
+        type: 'string',
+        description: 'Edit instruction, e.g. "put the logo from image 2 on the mug in image 1" (1-2000 characters)',
+        minLength: 1,
+        maxLength: 2000,
+      },
+      input_images: {
+        type: 'array',
+        description: 'Images to edit, numbered in order for the prompt (paths must be in outputs/ directory)',
+        minItems: 1,
+        maxItems: 10,
+        items: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Path to a PNG, JPEG or WebP image',
+              minLength: 1,
+            },
+            role: {
+              type: 'string',
+              enum: ['source', 'mask', 'reference'],
+              description: 'source: image to edit; mask: white marks the region to change; reference: subject or style to borrow',
+              default: 'source',
+            },
+          },
+          required: ['path'],
+        },
+      },
+      size: {
+        type: 'string',
+        enum: ['1024x1024', '1024x1536', '1536x1024'],
+        description: 'Output dimensions (defaults to the proportions of the first source image)',
       },
+      output_format: OUTPUT_FORMAT_PROPERTY,
+      fit: FIT_PROPERTY,
+      quality: QUALITY_PROPERTY,
+      aspect_ratio: ASPECT_RATIO_PROPERTY,
+      seed: SEED_PROPERTY,
+      temperature: TEMPERATURE_PROPERTY,
+      candidate_count: CANDIDATE_COUNT_PROPERTY,
+      negative_prompt: NEGATIVE_PROMPT_PROPERTY,
+      brand: BRAND_PROPERTY,
+      palette_check: PALETTE_CHECK_PROPERTY,
+      provider: PROVIDER_PROPERTY,
+      return_image: RETURN_IMAGE_PROPERTY,
+      async: ASYNC_PROPERTY,
       output_path: {
         type: 'string',
         description: 'Optional custom filename (must be in outputs/ directory)',
       },
     },
-    required: ['prompt'],
+    required: ['prompt', 'input_images'],
   },
 };
 
 export const GENERATE_ICON_SCHEMA = {
   name: 'generate_icon',
-  description: 'Generate an icon from a concept with customizable theme and size',
+  description: 'Generate an icon from a concept with customizable theme and size, optionally exported as a full app icon set',
   inputSchema: {
     type: 'object',
     properties: {
@@ -61,24 +229,38 @@ export const GENERATE_ICON_SCHEMA = {
         minLength: 1,
         maxLength: 2000,
       },
-      theme: {
-        type: 'string',
-        enum: ['minimal', 'playful', 'corporate'],
-        description: 'Icon theme/style',
+      theme: presetProperty(listThemeNames, {
+        description: 'Icon theme preset (see list_styles); it may also set the default size and background',
         default: 'minimal',
-      },
+      }),
       size: {
         type: 'string',
         enum: ['256x256', '512x512'],
-        description: 'Icon dimensions',
-        default: '512x512',
+        description: 'Icon dimensions (default: the theme\'s size, otherwise 512x512)',
       },
-      output_format: {
+      output_format: OUTPUT_FORMAT_PROPERTY,
+      fit: FIT_PROPERTY,
+      quality: QUALITY_PROPERTY,
+      export_icon_set: {
         type: 'string',
-        enum: ['png', 'webp'],
-        description: 'Output file format',
-        default: 'png',
+        enum: ['zip', 'folder'],
+        description: 'Also export a full app icon set (favicon.ico, apple-touch-icon, Android adaptive layers, PWA and maskable icons, manifest snippet and link tags) as a zip or a folder in outputs/',
       },
+      background_color: {
+        type: 'string',
+        description: 'Background color (#rrggbb) for icon set variants that must be opaque',
+        pattern: '^#?[0-9a-fA-F]{6}$',
+        default: '#ffffff',
+      },
+      seed: SEED_PROPERTY,
+      temperature: TEMPERATURE_PROPERTY,
+      candidate_count: CANDIDATE_COUNT_PROPERTY,
+      negative_prompt: NEGATIVE_PROMPT_PROPERTY,
+      brand: BRAND_PROPERTY,
+      palette_check: PALETTE_CHECK_PROPERTY,
+      provider: PROVIDER_PROPERTY,
+      return_image: RETURN_IMAGE_PROPERTY,
+      async: ASYNC_PROPERTY,
     },
     required: ['concept'],
   },
@@ -110,15 +292,21 @@ export const GENERATE_HERO_SCHEMA = {
       size: {
         type: 'string',
         enum: ['1024x1024', '1024x1536', '1536x1024'],
-        description: 'Image dimensions',
-        default: '1536x1024',
-      },
-      output_format: {
-        type: 'string',
-        enum: ['png', 'webp'],
-        description: 'Output file format',
-        default: 'png',
+        description: 'Image dimensions (default: 1536x1024, or the shape of aspect_ratio)',
       },
+      output_format: OUTPUT_FORMAT_PROPERTY,
+      fit: FIT_PROPERTY,
+      quality: QUALITY_PROPERTY,
+      aspect_ratio: ASPECT_RATIO_PROPERTY,
+      seed: SEED_PROPERTY,
+      temperature: TEMPERATURE_PROPERTY,
+      candidate_count: CANDIDATE_COUNT_PROPERTY,
+      negative_prompt: NEGATIVE_PROMPT_PROPERTY,
+      brand: BRAND_PROPERTY,
+      palette_check: PALETTE_CHECK_PROPERTY,
+      provider: PROVIDER_PROPERTY,
+      return_image: RETURN_IMAGE_PROPERTY,
+      async: ASYNC_PROPERTY,
     },
     required: ['product_name', 'tagline'],
   },
@@ -126,7 +314,7 @@ export const GENERATE_HERO_SCHEMA = {
 
 export const BEAUTIFY_SCREENSHOT_SCHEMA = {
   name: 'beautify_screenshot',
-  description: 'Analyze and provide suggestions for beautifying a UI screenshot (stub implementation)',
+  description: 'Restyle a UI screenshot towards a design goal and save the edited image',
   inputSchema: {
     type: 'object',
     properties: {
@@ -141,13 +329,324 @@ export const BEAUTIFY_SCREENSHOT_SCHEMA = {
         minLength: 1,
         maxLength: 1000,
       },
+      output_format: OUTPUT_FORMAT_PROPERTY,
+      fit: FIT_PROPERTY,
+      quality: QUALITY_PROPERTY,
+      seed: SEED_PROPERTY,
+      temperature: TEMPERATURE_PROPERTY,
+      candidate_count: CANDIDATE_COUNT_PROPERTY,
+      negative_prompt: NEGATIVE_PROMPT_PROPERTY,
+      brand: BRAND_PROPERTY,
+      palette_check: PALETTE_CHECK_PROPERTY,
+      provider: PROVIDER_PROPERTY,
+      return_image: RETURN_IMAGE_PROPERTY,
+      async: ASYNC_PROPERTY,
+    },
+    required: ['input_image_path', 'goal'],
+  },
+};
+
+export const GENERATE_BATCH_SCHEMA = {
+  name: 'generate_batch',
+  description: 'Generate several images in one call, from a list of prompts or as variants of one prompt across styles, with an optional contact sheet',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      items: {
+        type: 'array',
+        description: 'Images to generate; each item overrides the shared style, size and background. Use this or prompt',
+        minItems: 1,
+        maxItems: 20,
+        items: {
+          type: 'object',
+          properties: {
+            prompt: { type: 'string', minLength: 1, maxLength: 2000 },
+            style: presetProperty(listStyleNames),
+            size: { type: 'string', enum: ['1024x1024', '1024x1536', '1536x1024'] },
+            background: { type: 'string', enum: ['transparent', 'solid'] },
+          },
+          required: ['prompt'],
+        },
+      },
+      prompt: {
+        type: 'string',
+        description: 'One prompt to generate n variants of. Use this or items',
+        minLength: 1,
+        maxLength: 2000,
+      },
+      n: {
+        type: 'integer',
+        minimum: 1,
+        maximum: 20,
+        description: 'Number of variants of prompt',
+        default: 4,
+      },
+      styles: {
+        type: 'array',
+        items: presetProperty(listStyleNames),
+        description: 'Styles the variants cycle through (default: style if set, otherwise all styles)',
+      },
+      style: presetProperty(listStyleNames, { description: 'Shared style preset (default: illustration)' }),
+      size: {
+        type: 'string',
+        enum: ['1024x1024', '1024x1536', '1536x1024'],
+        description: 'Shared image dimensions (default: each style\'s size, otherwise 1024x1024)',
+      },
+      background: {
+        type: 'string',
+        enum: ['transparent', 'solid'],
+        description: 'Shared background type (default: each style\'s background, otherwise solid)',
+      },
+      output_format: OUTPUT_FORMAT_PROPERTY,
+      fit: FIT_PROPERTY,
+      quality: QUALITY_PROPERTY,
+      concurrency: {
+        type: 'integer',
+        minimum: 1,
+        maximum: 16,
+        description: 'Maximum images generated at once (capped by the BATCH_CONCURRENCY setting)',
+      },
+      contact_sheet: {
+        type: 'boolean',
+        description: 'Also save one image tiling all results in order',
+        default: false,
+      },
+      cache: CACHE_PROPERTY,
+      aspect_ratio: ASPECT_RATIO_PROPERTY,
+      seed: SEED_PROPERTY,
+      temperature: TEMPERATURE_PROPERTY,
+      candidate_count: CANDIDATE_COUNT_PROPERTY,
+      negative_prompt: NEGATIVE_PROMPT_PROPERTY,
+      brand: BRAND_PROPERTY,
+      palette_check: PALETTE_CHECK_PROPERTY,
+      provider: PROVIDER_PROPERTY,
+      return_image: {
+        type: 'boolean',
+        description: 'Return the contact sheet inline as an MCP image block. Defaults to the INLINE_IMAGES setting',
+      },
+      async: ASYNC_PROPERTY,
+    },
+  },
+};
+
+export const REMOVE_BACKGROUND_SCHEMA = {
+  name: 'remove_background',
+  description: 'Make the flat background of an image transparent, locally and without calling an image provider',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      input_image_path: {
+        type: 'string',
+        description: 'Path to the input image (must be in outputs/ directory)',
+        minLength: 1,
+      },
+      color: {
+        type: 'string',
+        description: 'Background color to remove as #rrggbb. Detected from the image border when omitted',
+        pattern: '^#?[0-9a-fA-F]{6}$',
+      },
+      tolerance: {
+        type: 'integer',
+        minimum: 0,
+        maximum: 255,
+        description: 'Color distance from the background color that is removed completely (default: 40)',
+      },
+      feather: {
+        type: 'integer',
+        minimum: 0,
+        maximum: 255,
+        description: 'Further color distance over which edges fade from transparent to opaque (default: 40)',
+      },
       output_format: {
         type: 'string',
-        enum: ['png', 'webp'],
-        description: 'Output file format',
+        enum: ['png', 'webp', 'avif'],
+        description: 'Output file format (formats with an alpha channel only)',
         default: 'png',
       },
+      quality: QUALITY_PROPERTY,
+      return_image: RETURN_IMAGE_PROPERTY,
+      output_path: {
+        type: 'string',
+        description: 'Optional custom filename (must be in outputs/ directory)',
+      },
     },
-    required: ['input_image_path', 'goal'],
+    required: ['input_image_path'],
+  },
+};
+
+export const GET_IMAGE_INFO_SCHEMA = {
+  name: 'get_image_info',
+  description: 'Describe a file in outputs/: format, dimensions, file size and the parameters that generated it',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      file_path: {
+        type: 'string',
+        description: 'Path of the file in outputs/, as returned by the tool that wrote it',
+      },
+    },
+    required: ['file_path'],
+  },
+};
+
+const OUTPUT_FILE_PATH_PROPERTY = {
+  type: 'string',
+  description: 'Path of the file or exported folder in outputs/, as returned by the tool that wrote it',
+};
+
+export const LIST_OUTPUTS_SCHEMA = {
+  name: 'list_outputs',
+  description: 'List generated files in outputs/, newest first, optionally filtered by tool, format, date or a search query',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      tool: {
+        type: 'string',
+        description: 'Only files written by this tool, e.g. "generate_icon"',
+      },
+      format: {
+        type: 'string',
+        enum: ['png', 'webp', 'jpeg', 'avif', 'gif', 'zip'],
+        description: 'Only files of this format',
+      },
+      since: {
+        type: 'string',
+        description: 'Only files modified at or after this ISO 8601 date or date-time',
+      },
+      until: {
+        type: 'string',
+        description: 'Only files modified before this ISO 8601 date or date-time',
+      },
+      query: {
+        type: 'string',
+        description: 'Case-insensitive text to find in the filename or the recorded prompt',
+      },
+      limit: {
+        type: 'integer',
+        minimum: 1,
+        maximum: 200,
+        description: 'Files per page',
+        default: 50,
+      },
+      cursor: {
+        type: 'string',
+        description: 'next_cursor from the previous page',
+      },
+    },
+  },
+};
+
+export const DELETE_OUTPUT_SCHEMA = {
+  name: 'delete_output',
+  description: 'Delete a file (and its metadata sidecar) or an exported icon set folder from outputs/',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      file_path: OUTPUT_FILE_PATH_PROPERTY,
+    },
+    required: ['file_path'],
+  },
+};
+
+export const RENAME_OUTPUT_SCHEMA = {
+  name: 'rename_output',
+  description: 'Rename a file or exported folder in outputs/; files keep their extension',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      file_path: OUTPUT_FILE_PATH_PROPERTY,
+      new_name: {
+        type: 'string',
+        description: 'New filename, without a directory, e.g. "logo-final.png"',
+      },
+    },
+    required: ['file_path', 'new_name'],
+  },
+};
+
+export const GET_USAGE_SCHEMA = {
+  name: 'get_usage',
+  description: 'Summarize provider usage and estimated cost by day, tool and model, with the remaining daily and monthly budgets',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      since: {
+        type: 'string',
+        description: 'Only calls made at or after this ISO 8601 date or date-time',
+      },
+      until: {
+        type: 'string',
+        description: 'Only calls made before this ISO 8601 date or date-time',
+      },
+      tool: {
+        type: 'string',
+        description: 'Only calls made by this tool, e.g. "generate_icon"',
+      },
+      model: {
+        type: 'string',
+        description: 'Only calls to this model, e.g. "gemini-2.5-flash-image"',
+      },
+    },
+  },
+};
+
+export const LIST_STYLES_SCHEMA = {
+  name: 'list_styles',
+  description: 'List the style presets of generate_image and generate_batch and the icon theme presets of generate_icon, with their prompt prefix and suffix, negative guidance and default size and background, and the brand kits the brand argument accepts',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+  },
+};
+
+export const GET_JOB_SCHEMA = {
+  name: 'get_job',
+  description: 'Get the status, progress and (once finished) the result of a background job',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      job_id: {
+        type: 'string',
+        description: 'Job id returned by a tool called with async: true',
+      },
+    },
+    required: ['job_id'],
+  },
+};
+
+export const LIST_JOBS_SCHEMA = {
+  name: 'list_jobs',
+  description: 'List your background jobs, newest first',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      status: {
+        type: 'string',
+        enum: ['queued', 'running', 'succeeded', 'failed'],
+        description: 'Only list jobs with this status',
+      },
+    },
+  },
+};
+
+export const WAIT_JOB_SCHEMA = {
+  name: 'wait_job',
+  description: 'Wait for a background job to finish and return its result; sends progress notifications when a progress token is given',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      job_id: {
+        type: 'string',
+        description: 'Job id returned by a tool called with async: true',
+      },
+      timeout_ms: {
+        type: 'integer',
+        minimum: 0,
+        maximum: 300000,
+        description: 'Return the current status after this long if the job is still running',
+        default: 25000,
+      },
+    },
+    required: ['job_id'],
   },
 };
@@ -1,54 +1,205 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { ZodTypeAny } from 'zod';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  type ProgressToken,
+  type ServerNotification,
+  type ServerRequest,
 } from '@modelcontextprotocol/sdk/types.js';
 import {
   GENERATE_IMAGE_SCHEMA,
+  EDIT_IMAGE_SCHEMA,
   GENERATE_ICON_SCHEMA,
   GENERATE_HERO_SCHEMA,
   BEAUTIFY_SCREENSHOT_SCHEMA,
+  REMOVE_BACKGROUND_SCHEMA,
+  GET_IMAGE_INFO_SCHEMA,
+  LIST_OUTPUTS_SCHEMA,
+  DELETE_OUTPUT_SCHEMA,
+  RENAME_OUTPUT_SCHEMA,
+  GET_USAGE_SCHEMA,
+  LIST_STYLES_SCHEMA,
+  GENERATE_BATCH_SCHEMA,
+  GET_JOB_SCHEMA,
+  LIST_JOBS_SCHEMA,
+  WAIT_JOB_SCHEMA,
 } from './schema.js';
 import {
   generateImageInputSchema,
+  editImageInputSchema,
   generateIconInputSchema,
   generateHeroInputSchema,
   beautifyScreenshotInputSchema,
+  removeBackgroundInputSchema,
+  getImageInfoInputSchema,
+  listOutputsInputSchema,
+  deleteOutputInputSchema,
+  renameOutputInputSchema,
+  getUsageInputSchema,
+  generateBatchInputSchema,
+  getJobInputSchema,
+  listJobsInputSchema,
+  waitJobInputSchema,
+  listStylesInputSchema,
+  type GenerateImageInput,
   type ImageOutput,
 } from '../utils/validate.js';
-import { GeminiProvider } from '../providers/geminiProvider.js';
-import { ImageProvider } from '../providers/imageProvider.js';
+import {
+  GenerationControl,
+  ImageGenerationOptions,
+  ImageGenerationResult,
+  ImageProvider,
+  InputImage,
+} from '../providers/imageProvider.js';
+import { ProviderRegistry, createProviderRegistry } from '../providers/registry.js';
 import {
   generateFilename,
-  writeBase64Image,
-  downloadImage,
+  writeImageBuffer,
+  writeOutputDirectory,
+  decodeBase64Image,
+  fetchImageBuffer,
   getMimeType,
+  readImageAsBase64,
   parseSize,
+  sizeForAspectRatio,
+  listOutputFiles,
+  deleteOutput,
+  renameOutput,
 } from '../utils/files.js';
-import { safeJoinOutputs, toRelativePath, validateOutputPath } from '../utils/paths.js';
+import {
+  createContactSheet,
+  createPreview,
+  encodeImage,
+  fitImage,
+  formatExtension,
+  measureImage,
+  readImageDimensions,
+  sniffImageFormat,
+  type FitMode,
+  type OutputFormat,
+} from '../utils/image.js';
+import { getOutputsDir, safeJoinOutputs, toRelativePath, validateOutputPath } from '../utils/paths.js';
 import { logger } from '../utils/log.js';
+import { ToolError } from '../utils/errors.js';
+import { isCancelledError, throwIfAborted } from '../utils/abort.js';
+import { ensureTransparentBackground, removeBackground } from '../utils/background.js';
+import {
+  GenerationMetadata,
+  buildGenerationMetadata,
+  embedMetadata,
+  readFileMetadata,
+  sidecarPath,
+} from '../utils/metadata.js';
+import { buildIconSet } from '../utils/iconSet.js';
+import {
+  BrandKit,
+  applyBrandPrompt,
+  getBrandKit,
+  listBrandKits,
+  listStyleNames,
+  listStyles,
+  listThemes,
+} from '../utils/presets.js';
+import { scorePalette } from '../utils/palette.js';
+import { createZip } from '../utils/zip.js';
+import { mapSettled } from '../utils/concurrency.js';
+import {
+  CacheMode,
+  GenerationCache,
+  generationCacheKey,
+  loadGenerationCacheConfig,
+} from '../utils/cache.js';
+import { Job, JobQueue, ProgressReporter, loadJobQueueConfig } from './jobs.js';
+import { RateLimiter, loadRateLimitConfig } from './rateLimit.js';
+import { UsageLedger, loadUsageConfig } from './usage.js';
+import { ProviderAuthError, UpstreamUnavailableError } from '../providers/errors.js';
+import { buildErrorResult, toErrorPayload } from './errors.js';
+import { registerResourceHandlers, toResourceUri } from './resources.js';
+import { registerPromptHandlers, buildIconPrompt, buildHeroPrompt } from './prompts.js';
 
-// Rate limiting
-const rateLimitMap = new Map<string, number[]>();
-const RATE_LIMIT_WINDOW = 60000; // 1 minute
-const RATE_LIMIT_MAX = parseInt(process.env.RATE_LIMIT_PER_MINUTE || '20', 10);
+// Rate limiting, shared by every session of this process
+// Created on first use, once .env has been loaded
+let rateLimiter: RateLimiter | undefined;
 
-function checkRateLimit(toolName: string): void {
-  const now = Date.now();
-  const timestamps = rateLimitMap.get(toolName) || [];
+function getRateLimiter(): RateLimiter {
+  rateLimiter ??= new RateLimiter(loadRateLimitConfig());
+  return rateLimiter;
+}
 
-  // Remove timestamps outside the window
-  const validTimestamps = timestamps.filter((t) => now - t < RATE_LIMIT_WINDOW);
+// Usage ledger and budgets, shared by every session of this process
+let usageLedger: UsageLedger | undefined;
 
-  if (validTimestamps.length >= RATE_LIMIT_MAX) {
-    throw new Error(`Rate limit exceeded: max ${RATE_LIMIT_MAX} requests per minute`);
-  }
+function getUsageLedger(): UsageLedger {
+  usageLedger ??= new UsageLedger(loadUsageConfig());
+  return usageLedger;
+}
+
+// Inline image content, read on each call so .env has been loaded
+function inlineImagesDefault(): boolean {
+  return process.env.INLINE_IMAGES === 'true';
+}
+
+function inlineImageMaxBytes(): number {
+  return Math.max(1, parseInt(process.env.INLINE_IMAGE_MAX_BYTES || '750000', 10) || 750000);
+}
+
+// Batch generation cap, read on each call so .env has been loaded
+function batchConcurrency(): number {
+  return Math.max(1, parseInt(process.env.BATCH_CONCURRENCY || '3', 10) || 3);
+}
 
-  validTimestamps.push(now);
-  rateLimitMap.set(toolName, validTimestamps);
+// Icon sets include 512px icons, so generate the master larger than the largest icon size
+const ICON_SET_MASTER_SIZE = '1024x1024';
+
+// Background jobs, shared by every session of this process
+let jobQueue: JobQueue | undefined;
+
+function getJobQueue(): JobQueue {
+  jobQueue ??= new JobQueue(loadJobQueueConfig());
+  return jobQueue;
 }
 
+const TOOL_SCHEMAS = [
+  GENERATE_IMAGE_SCHEMA,
+  EDIT_IMAGE_SCHEMA,
+  GENERATE_ICON_SCHEMA,
+  GENERATE_HERO_SCHEMA,
+  BEAUTIFY_SCREENSHOT_SCHEMA,
+  REMOVE_BACKGROUND_SCHEMA,
+  GET_IMAGE_INFO_SCHEMA,
+  LIST_OUTPUTS_SCHEMA,
+  DELETE_OUTPUT_SCHEMA,
+  RENAME_OUTPUT_SCHEMA,
+  GET_USAGE_SCHEMA,
+  LIST_STYLES_SCHEMA,
+  GENERATE_BATCH_SCHEMA,
+  GET_JOB_SCHEMA,
+  LIST_JOBS_SCHEMA,
+  WAIT_JOB_SCHEMA,
+];
+
+const TOOL_NAMES = new Set(TOOL_SCHEMAS.map((tool) => tool.name));
+
+const JOB_TOOLS = new Set(['get_job', 'list_jobs', 'wait_job']);
+
+/** Client id of callers without a token (stdio, or HTTP without MCP_AUTH_TOKENS) */
+export const LOCAL_CLIENT_ID = 'local';
+
+// Tools that accept async: true, with the schema their arguments are checked against up front
+const ASYNC_TOOL_INPUTS = new Map<string, ZodTypeAny>([
+  ['generate_image', generateImageInputSchema],
+  ['edit_image', editImageInputSchema],
+  ['generate_icon', generateIconInputSchema],
+  ['generate_hero', generateHeroInputSchema],
+  ['beautify_screenshot', beautifyScreenshotInputSchema],
+  ['generate_batch', generateBatchInputSchema],
+]);
+
 export function createMCPServer(): Server {
   const server = new Server(
     {
@@ -58,105 +209,542 @@ export function createMCPServer(): Server {
     {
       capabilities: {
         tools: {},
+        resources: {
+          listChanged: true,
+        },
+        prompts: {},
       },
     }
   );
 
-  const imageProvider: ImageProvider = new GeminiProvider();
+  registerResourceHandlers(server);
+  registerPromptHandlers(server);
+
+  const providers = createProviderRegistry();
+  logger.info('Image providers:', { available: providers.list(), default: providers.getDefaultId() });
+  const cache = new GenerationCache(loadGenerationCacheConfig());
 
   // List available tools
   server.setRequestHandler(ListToolsRequestSchema, async () => {
-    return {
-      tools: [
-        GENERATE_IMAGE_SCHEMA,
-        GENERATE_ICON_SCHEMA,
-        GENERATE_HERO_SCHEMA,
-        BEAUTIFY_SCREENSHOT_SCHEMA,
-      ],
-    };
+    return { tools: TOOL_SCHEMAS };
   });
 
   // Handle tool calls
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params;
+    const owner = extra.authInfo?.clientId || LOCAL_CLIENT_ID;
+    const report = progressReporter(extra, request.params._meta?.progressToken);
+    let releaseRateLimit: (() => void) | undefined;
 
     try {
-      checkRateLimit(name);
-
-      switch (name) {
-        case 'generate_image':
-          return await handleGenerateImage(args, imageProvider);
-        case 'generate_icon':
-          return await handleGenerateIcon(args, imageProvider);
-        case 'generate_hero':
-          return await handleGenerateHero(args, imageProvider);
-        case 'beautify_screenshot':
-          return await handleBeautifyScreenshot(args);
-        default:
-          throw new Error(`Unknown tool: ${name}`);
+      // Checked before rate limiting, so made-up names don't get buckets of their own
+      if (!TOOL_NAMES.has(name)) {
+        throw new ToolError('unknown_tool', `Unknown tool: ${name}`);
+      }
+
+      // Polling jobs must not use up the budget of the tools that do the work
+      if (!JOB_TOOLS.has(name)) {
+        releaseRateLimit = getRateLimiter().acquire({ tool: name, clientId: owner, sessionId: extra.sessionId });
+      }
+
+      if (args?.async === true && ASYNC_TOOL_INPUTS.has(name)) {
+        try {
+          return submitJob(name, args, owner, providers, cache);
+        } catch (error) {
+          // Nothing was queued, so the call doesn't count against the rate limit
+          releaseRateLimit?.();
+          throw error;
+        }
       }
+
+      return await runTool(name, args, providers, cache, owner, report, extra.signal);
     } catch (error) {
-      logger.error(`Tool ${name} failed:`, error);
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({
-              ok: false,
-              error: errorMessage,
-            }),
-          },
-        ],
-      };
+      // A cancelled call produced nothing, so it doesn't count against the rate limit
+      if (isCancelledError(error) || extra.signal.aborted) {
+        releaseRateLimit?.();
+        logger.info(`Tool ${name} cancelled by the client`);
+      } else {
+        logger.error(`Tool ${name} failed:`, error);
+      }
+      return buildErrorResult(error);
     }
   });
 
   return server;
 }
 
-async function handleGenerateImage(
+/**
+ * Dispatch a tool call to its handler
+ */
+async function runTool(
+  name: string,
   args: any,
-  provider: ImageProvider
+  providers: ProviderRegistry,
+  cache: GenerationCache,
+  owner: string,
+  report: ProgressReporter,
+  signal?: AbortSignal
 ): Promise<any> {
-  const input = generateImageInputSchema.parse(args);
+  switch (name) {
+    case 'generate_image':
+      return await handleGenerateImage(args, providers, cache, signal);
+    case 'edit_image':
+      return await handleEditImage(args, providers, signal);
+    case 'generate_icon':
+      return await handleGenerateIcon(args, providers, signal);
+    case 'generate_hero':
+      return await handleGenerateHero(args, providers, signal);
+    case 'beautify_screenshot':
+      return await handleBeautifyScreenshot(args, providers, signal);
+    case 'remove_background':
+      return await handleRemoveBackground(args, signal);
+    case 'get_image_info':
+      return await handleGetImageInfo(args);
+    case 'list_outputs':
+      return await handleListOutputs(args);
+    case 'delete_output':
+      return await handleDeleteOutput(args);
+    case 'rename_output':
+      return await handleRenameOutput(args);
+    case 'get_usage':
+      return handleGetUsage(args);
+    case 'list_styles':
+      return handleListStyles(args);
+    case 'generate_batch':
+      return await handleGenerateBatch(args, providers, cache, signal, report);
+    case 'get_job':
+      return handleGetJob(args, owner);
+    case 'list_jobs':
+      return handleListJobs(args, owner);
+    case 'wait_job':
+      return await handleWaitJob(args, owner, report, signal);
+    default:
+      throw new ToolError('unknown_tool', `Unknown tool: ${name}`);
+  }
+}
 
-  logger.info('Generating image:', { prompt: input.prompt.slice(0, 50) + '...' });
+/**
+ * Send notifications/progress for a request, if the caller asked for them
+ * Only increasing progress values are sent, as the protocol requires
+ */
+function progressReporter(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  progressToken: ProgressToken | undefined
+): ProgressReporter {
+  let last = -1;
+  return (progress) => {
+    if (progressToken === undefined || progress.progress <= last) {
+      return;
+    }
+    last = progress.progress;
+    extra.sendNotification({ method: 'notifications/progress', params: { progressToken, ...progress } }).catch((error) => {
+      logger.debug('Failed to send progress notification:', error);
+    });
+  };
+}
 
-  // Generate or validate output path
-  let filename: string;
-  if (input.output_path) {
-    validateOutputPath(input.output_path);
-    filename = input.output_path;
-  } else {
-    filename = generateFilename('generate_image', input.output_format);
+/**
+ * Validate the arguments now, then queue the tool call as a background job
+ */
+function submitJob(
+  name: string,
+  args: Record<string, unknown>,
+  owner: string,
+  providers: ProviderRegistry,
+  cache: GenerationCache
+): any {
+  ASYNC_TOOL_INPUTS.get(name)!.parse(args);
+
+  const job = getJobQueue().submit(owner, name, (report) =>
+    runTool(name, { ...args, async: false }, providers, cache, owner, report)
+  );
+
+  return toToolResult({
+    ok: true,
+    ...describeJob(job),
+    message: 'Job queued. Call wait_job or get_job with this job_id to get the result.',
+  });
+}
+
+function describeJob(job: Job): Record<string, unknown> {
+  return {
+    job_id: job.id,
+    tool: job.tool,
+    status: job.status,
+    progress: job.progress,
+    created_at: job.createdAt.toISOString(),
+    started_at: job.startedAt?.toISOString(),
+    finished_at: job.finishedAt?.toISOString(),
+    error: job.error,
+  };
+}
+
+/**
+ * Job status plus, once it succeeded, the tool's own result payload and any inline images
+ */
+function toJobToolResult(job: Job): any {
+  const [payload, ...images] = job.result?.content || [];
+  const result = toToolResult({
+    ok: true,
+    ...describeJob(job),
+    result: payload ? JSON.parse(payload.text) : undefined,
+  });
+  result.content.push(...images);
+  return result;
+}
+
+function handleGetJob(args: any, owner: string): any {
+  const input = getJobInputSchema.parse(args);
+  return toJobToolResult(getJobQueue().get(input.job_id, owner));
+}
+
+function handleListJobs(args: any, owner: string): any {
+  const input = listJobsInputSchema.parse(args ?? {});
+  const list = getJobQueue().list(owner, input.status);
+  return toToolResult({ ok: true, count: list.length, jobs: list.map(describeJob) });
+}
+
+async function handleWaitJob(args: any, owner: string, report: ProgressReporter, signal?: AbortSignal): Promise<any> {
+  const input = waitJobInputSchema.parse(args);
+  const job = await getJobQueue().wait(input.job_id, owner, input.timeout_ms, report, signal);
+  return toJobToolResult(job);
+}
+
+/**
+ * Pick the output filename: a generated one, or a validated custom output_path
+ * whose extension must agree with the requested format
+ */
+function resolveOutputFilename(toolName: string, format: OutputFormat, outputPath?: string): string {
+  if (!outputPath) {
+    return generateFilename(toolName, formatExtension(format));
   }
 
-  // Generate image
-  const result = await provider.generateImage({
-    prompt: input.prompt,
-    style: input.style,
-    size: input.size,
-    background: input.background,
-    format: input.output_format,
+  validateOutputPath(outputPath);
+
+  const extension = path.extname(outputPath).slice(1).toLowerCase();
+  const extensionMime = getMimeType(extension);
+  if (extensionMime.startsWith('image/') && extensionMime !== getMimeType(format)) {
+    throw new ToolError('invalid_arguments', `output_path extension .${extension} does not match output_format ${format}`, {
+      details: [{ field: 'output_path', message: `Use a .${formatExtension(format)} filename or change output_format`, issue: 'custom' }],
+    });
+  }
+
+  return outputPath;
+}
+
+interface ImageOutputOptions {
+  format: OutputFormat;
+  quality?: number;
+  size?: string;
+  fit?: FitMode;
+  transparent?: boolean;
+  /** Nothing is written once this fires */
+  signal?: AbortSignal;
+  /** Provenance embedded in the file, or written to a sidecar */
+  metadata?: GenerationMetadata;
+}
+
+/**
+ * Provenance for a provider-generated image
+ */
+function providerMetadata(tool: string, parameters: Record<string, unknown>, provider: ImageProvider): GenerationMetadata {
+  return buildGenerationMetadata(tool, parameters, { id: provider.getId(), model: provider.getModel() });
+}
+
+/**
+ * Decode and check a provider result
+ * Transparent requests get their flat backdrop keyed out
+ */
+async function decodeImageResult(
+  result: ImageGenerationResult,
+  provider: ImageProvider,
+  transparent?: boolean,
+  signal?: AbortSignal
+): Promise<Buffer> {
+  const image = result.format === 'base64'
+    ? decodeBase64Image(result.data)
+    : await fetchImageBuffer(result.data, signal);
+
+  if (!sniffImageFormat(image)) {
+    throw new UpstreamUnavailableError(`${provider.getName()} returned data that is not a recognizable image`);
+  }
+
+  return transparent ? ensureTransparentBackground(image) : image;
+}
+
+/**
+ * Call the provider once the spending budgets allow it, and record the call in the usage ledger
+ */
+async function callProvider(
+  provider: ImageProvider,
+  options: ImageGenerationOptions,
+  tool: string
+): Promise<ImageGenerationResult> {
+  const ledger = getUsageLedger();
+  ledger.checkBudget(provider.getModel());
+
+  const ignored = ignoredControls(provider, options);
+  if (ignored) {
+    logger.warn('Provider ignores options:', { provider: provider.getId(), ignored });
+  }
+
+  const started = Date.now();
+  const result = await provider.generateImage(options);
+  await ledger.record({
+    tool,
+    provider: provider.getId(),
+    model: provider.getModel(),
+    usage: result.usage,
+    durationMs: Date.now() - started,
   });
+  return result;
+}
+
+/**
+ * Map the advanced control arguments onto provider options
+ */
+function generationControls(input: {
+  seed?: number;
+  temperature?: number;
+  candidate_count?: number;
+  negative_prompt?: string;
+  aspect_ratio?: string;
+}): Pick<ImageGenerationOptions, 'seed' | 'temperature' | 'candidateCount' | 'negativePrompt' | 'aspectRatio'> {
+  return {
+    seed: input.seed,
+    temperature: input.temperature,
+    candidateCount: input.candidate_count,
+    negativePrompt: input.negative_prompt,
+    aspectRatio: input.aspect_ratio,
+  };
+}
+
+/**
+ * Advanced controls the call set that the provider doesn't pass on, for ignored_options
+ * A single candidate is what every provider returns anyway
+ */
+function ignoredControls(
+  provider: ImageProvider,
+  options: ImageGenerationOptions,
+  referenceImages: InputImage[] = []
+): GenerationControl[] | undefined {
+  const requested: Array<[GenerationControl, boolean]> = [
+    ['seed', options.seed !== undefined],
+    ['temperature', options.temperature !== undefined],
+    ['candidate_count', (options.candidateCount ?? 1) > 1],
+    ['negative_prompt', !!options.negativePrompt],
+    ['aspect_ratio', !!options.aspectRatio],
+    ['reference_images', referenceImages.length > 0],
+  ];
+  const supported = provider.getSupportedControls();
+  const ignored = requested.filter(([control, set]) => set && !supported.includes(control)).map(([control]) => control);
+  return ignored.length > 0 ? ignored : undefined;
+}
+
+/**
+ * Decode the candidates after the first, when the provider returned several
+ */
+async function decodeExtraCandidates(
+  result: ImageGenerationResult,
+  provider: ImageProvider,
+  transparent?: boolean,
+  signal?: AbortSignal
+): Promise<Buffer[]> {
+  const candidates = result.candidates?.slice(1) || [];
+  return Promise.all(candidates.map((candidate) => decodeImageResult(candidate, provider, transparent, signal)));
+}
 
-  // Save image
-  let filePath: string;
-  if (result.format === 'base64') {
-    filePath = await writeBase64Image(result.data, filename);
-  } else {
-    filePath = await downloadImage(result.data, filename);
+/**
+ * Call the provider, or reuse the image of an identical earlier call
+ * Returns the images as the provider made them, before any keying or fitting
+ */
+async function generateCachedImage(
+  provider: ImageProvider,
+  options: ImageGenerationOptions,
+  tool: string,
+  mode: CacheMode,
+  cache: GenerationCache
+): Promise<{ image: Buffer; candidates: Buffer[]; cache: NonNullable<ImageOutput['cache']> }> {
+  // The cache holds one image per call, so calls for several candidates always go to the provider
+  if (mode === 'bypass' || !cache.enabled || (options.candidateCount ?? 1) > 1) {
+    const result = await callProvider(provider, options, tool);
+    return {
+      image: await decodeImageResult(result, provider, false, options.signal),
+      candidates: await decodeExtraCandidates(result, provider, false, options.signal),
+      cache: { status: 'bypass' },
+    };
   }
 
-  const output: ImageOutput = {
+  const key = generationCacheKey(provider.getId(), provider.getModel(), options);
+  if (mode === 'use') {
+    const cached = await cache.get(key);
+    if (cached) {
+      logger.info('Generation cache hit:', { key });
+      return { image: cached, candidates: [], cache: { status: 'hit', key } };
+    }
+  }
+
+  const result = await callProvider(provider, options, tool);
+  const image = await decodeImageResult(result, provider, false, options.signal);
+  await cache.set(key, image);
+  return { image, candidates: [], cache: { status: mode === 'refresh' ? 'refresh' : 'miss', key } };
+}
+
+/**
+ * Fold a brand kit into the prompt and load its logo and reference images
+ * Without a kit the prompt is returned as is
+ */
+async function applyBrand(prompt: string, kit?: BrandKit): Promise<{ prompt: string; images: InputImage[] }> {
+  if (!kit) {
+    return { prompt, images: [] };
+  }
+
+  const images: InputImage[] = [];
+  for (const file of kit.logo ? [kit.logo, ...kit.references] : kit.references) {
+    const { data, mimeType } = await readImageAsBase64(file);
+    images.push({ data, mimeType, role: 'reference' });
+  }
+  return { prompt: applyBrandPrompt(prompt, kit), images };
+}
+
+/**
+ * Brand images to send with a call that has no image of its own. A provider
+ * that only takes images to edit them would edit the logo, so it gets none
+ */
+function brandReferenceImages(provider: ImageProvider, images: InputImage[]): InputImage[] | undefined {
+  if (images.length === 0) {
+    return undefined;
+  }
+  if (!provider.getSupportedControls().includes('reference_images')) {
+    logger.warn('Provider ignores options:', { provider: provider.getId(), ignored: ['reference_images'] });
+    return undefined;
+  }
+  return images;
+}
+
+/**
+ * Score a saved output against the brand palette
+ */
+async function checkPalette(output: ImageOutput, kit: BrandKit): Promise<NonNullable<ImageOutput['palette_check']>> {
+  const { score, colors } = await scorePalette(await fs.readFile(validateOutputPath(output.file_path)), kit.palette);
+  return { brand: kit.name, score, min_score: kit.minPaletteScore, passed: score >= kit.minPaletteScore, colors };
+}
+
+/**
+ * Save a provider result, and any further candidates, to outputs/ and describe it for the caller
+ */
+async function saveImageResult(
+  result: ImageGenerationResult,
+  filename: string,
+  options: ImageOutputOptions,
+  provider: ImageProvider
+): Promise<ImageOutput> {
+  const image = await decodeImageResult(result, provider, options.transparent, options.signal);
+  const output = await writeImageOutput(image, filename, options);
+  const candidates = await decodeExtraCandidates(result, provider, options.transparent, options.signal);
+  return {
+    ...output,
+    provider: provider.getId(),
+    model: provider.getModel(),
+    candidates: await writeCandidateOutputs(candidates, filename, options),
+  };
+}
+
+/**
+ * Save further candidates next to the main output, as <name>_2, <name>_3, ...
+ */
+async function writeCandidateOutputs(
+  images: Buffer[],
+  filename: string,
+  options: ImageOutputOptions
+): Promise<ImageOutput['candidates']> {
+  if (images.length === 0) {
+    return undefined;
+  }
+
+  const extension = path.extname(filename);
+  const base = filename.slice(0, filename.length - extension.length);
+  const candidates: NonNullable<ImageOutput['candidates']> = [];
+  for (const [index, image] of images.entries()) {
+    const { file_path, resource_uri, mime_type, width, height } = await writeImageOutput(image, `${base}_${index + 2}${extension}`, options);
+    candidates.push({ file_path, resource_uri, mime_type, width, height });
+  }
+  return candidates;
+}
+
+/**
+ * Fit, encode and write an image to outputs/
+ *
+ * Providers often return a preset resolution rather than the requested size,
+ * so the image is fitted to exactly `size` first. The reported MIME type and
+ * dimensions come from the bytes written, never from the request.
+ */
+async function writeImageOutput(image: Buffer, filename: string, options: ImageOutputOptions): Promise<ImageOutput> {
+  if (options.size) {
+    const { width, height } = parseSize(options.size);
+    const actual = await measureImage(image);
+    if (!actual || actual.width !== width || actual.height !== height) {
+      logger.debug('Fitting image to requested size:', { from: actual, to: options.size, fit: options.fit || 'cover' });
+      image = await fitImage(image, width, height, { fit: options.fit || 'cover', transparent: options.transparent });
+    }
+  }
+
+  const encoded = await encodeImage(image, options.format, options.quality);
+  const embedded = options.metadata ? embedMetadata(encoded, options.metadata) : null;
+  throwIfAborted(options.signal);
+  const filePath = await writeImageBuffer(embedded || encoded, filename);
+  if (options.metadata && !embedded) {
+    await fs.writeFile(sidecarPath(filePath), JSON.stringify(options.metadata, null, 2) + '\n');
+  }
+  const dimensions = await measureImage(encoded);
+  if (!dimensions) {
+    throw new Error(`Unable to read back the encoded ${options.format} image`);
+  }
+
+  return {
     ok: true,
     file_path: toRelativePath(filePath),
-    mime_type: getMimeType(input.output_format),
-    width: result.width,
-    height: result.height,
+    resource_uri: toResourceUri(path.basename(filePath)),
+    mime_type: getMimeType(sniffImageFormat(encoded) || options.format),
+    width: dimensions.width,
+    height: dimensions.height,
   };
+}
+
+/**
+ * Wrap an image output as an MCP tool result, optionally with the image inline
+ * Files over INLINE_IMAGE_MAX_BYTES are replaced by a downscaled WebP preview
+ */
+async function toImageToolResult(output: ImageOutput, returnImage?: boolean): Promise<any> {
+  if (!(returnImage ?? inlineImagesDefault())) {
+    return toToolResult(output);
+  }
+
+  const buffer = await fs.readFile(validateOutputPath(output.file_path));
+  let image: { data: Buffer; mimeType: string } = { data: buffer, mimeType: output.mime_type };
+  output.inline_image = 'full';
+
+  const maxBytes = inlineImageMaxBytes();
+  if (buffer.length > maxBytes) {
+    const preview = await createPreview(buffer, maxBytes);
+    image = { data: preview.data, mimeType: preview.mimeType };
+    output.inline_image = 'preview';
+    logger.debug('Inline image downscaled:', { from: buffer.length, to: preview.data.length });
+  }
+
+  const result = toToolResult(output);
+  result.content.push({
+    type: 'image',
+    data: image.data.toString('base64'),
+    mimeType: image.mimeType,
+  });
+  return result;
+}
 
+/**
+ * Wrap a JSON payload as an MCP tool result
+ */
+function toToolResult(output: object): any {
   return {
     content: [
       {
@@ -167,164 +755,635 @@ async function handleGenerateImage(
   };
 }
 
+async function handleGenerateImage(
+  args: any,
+  providers: ProviderRegistry,
+  cache: GenerationCache,
+  signal?: AbortSignal
+): Promise<any> {
+  const input = generateImageInputSchema.parse(args);
+  const provider = providers.get(input.provider);
+
+  logger.info('Generating image:', { prompt: input.prompt.slice(0, 50) + '...' });
+
+  const output = await generateImageOutput(input, provider, 'generate_image', cache, signal);
+  return toImageToolResult(output, input.return_image);
+}
+
+/**
+ * Generate one image from validated generate_image arguments and save it
+ */
+async function generateImageOutput(
+  input: GenerateImageInput,
+  provider: ImageProvider,
+  toolName: string,
+  cache: GenerationCache,
+  signal?: AbortSignal
+): Promise<ImageOutput> {
+  // Generate or validate output path
+  const filename = resolveOutputFilename(toolName, input.output_format, input.output_path);
+  const kit = input.brand ? getBrandKit(input.brand) : undefined;
+  const branded = await applyBrand(input.prompt, kit);
+
+  // Generate image, or reuse an identical earlier one
+  const options: ImageGenerationOptions = {
+    prompt: branded.prompt,
+    style: input.style,
+    size: input.size,
+    background: input.background,
+    format: input.output_format,
+    inputImages: brandReferenceImages(provider, branded.images),
+    ...generationControls(input),
+    signal,
+  };
+  const generated = await generateCachedImage(provider, options, toolName, input.cache, cache);
+
+  const transparent = input.background === 'transparent';
+  const key = (image: Buffer) => (transparent ? ensureTransparentBackground(image) : image);
+  const outputOptions: ImageOutputOptions = {
+    format: input.output_format,
+    quality: input.quality,
+    size: input.size,
+    fit: input.fit,
+    transparent,
+    signal,
+    metadata: providerMetadata(toolName, input, provider),
+  };
+  const output = await writeImageOutput(await key(generated.image), filename, outputOptions);
+  return {
+    ...output,
+    provider: provider.getId(),
+    model: provider.getModel(),
+    cache: generated.cache,
+    candidates: await writeCandidateOutputs(await Promise.all(generated.candidates.map(key)), filename, outputOptions),
+    ignored_options: ignoredControls(provider, options, branded.images),
+    palette_check: input.palette_check && kit ? await checkPalette(output, kit) : undefined,
+  };
+}
+
+async function handleGenerateBatch(
+  args: any,
+  providers: ProviderRegistry,
+  cache: GenerationCache,
+  signal: AbortSignal | undefined,
+  report: ProgressReporter
+): Promise<any> {
+  const input = generateBatchInputSchema.parse(args);
+  const provider = providers.get(input.provider);
+
+  // Either the given items, or n variants of one prompt cycling through styles
+  const styles = input.styles || (input.style ? [input.style] : listStyleNames());
+  const items = input.items || Array.from({ length: input.n }, (_, index) => ({
+    prompt: input.prompt!,
+    style: styles[index % styles.length],
+  }));
+
+  const requests = items.map((item) => generateImageInputSchema.parse({
+    style: input.style,
+    size: input.size,
+    // An item's own size wins over the shared aspect ratio
+    aspect_ratio: 'size' in item && item.size ? undefined : input.aspect_ratio,
+    background: input.background,
+    output_format: input.output_format,
+    fit: input.fit,
+    quality: input.quality,
+    cache: input.cache,
+    brand: input.brand,
+    palette_check: input.palette_check,
+    seed: input.seed,
+    temperature: input.temperature,
+    candidate_count: input.candidate_count,
+    negative_prompt: input.negative_prompt,
+    ...item,
+  }));
+
+  const limit = batchConcurrency();
+  const concurrency = Math.min(input.concurrency ?? limit, limit);
+  logger.info('Generating batch:', { items: requests.length, concurrency });
+
+  let completed = 0;
+  const settled = await mapSettled(requests, concurrency, async (request) => {
+    // Items not yet started are skipped once the call is cancelled
+    throwIfAborted(signal);
+    try {
+      return await generateImageOutput(request, provider, 'generate_batch', cache, signal);
+    } finally {
+      completed++;
+      report({ progress: completed, total: requests.length, message: `${completed}/${requests.length} images done` });
+    }
+  });
+
+  const results = settled.map((outcome, index) => ({
+    index,
+    prompt: requests[index].prompt,
+    style: requests[index].style,
+    ...(outcome.status === 'fulfilled' ? outcome.value : toErrorPayload(outcome.reason)),
+  }));
+  const succeeded = settled.filter((outcome) => outcome.status === 'fulfilled').length;
+  throwIfAborted(signal);
+
+  if (succeeded === 0) {
+    return buildErrorResult((settled[0] as PromiseRejectedResult).reason, { items: results });
+  }
+
+  const summary: Record<string, unknown> = {
+    ok: true,
+    succeeded,
+    failed: results.length - succeeded,
+    items: results,
+  };
+
+  if (!input.contact_sheet) {
+    return toToolResult(summary);
+  }
+
+  const images = await Promise.all(
+    settled.map((outcome) =>
+      outcome.status === 'fulfilled' ? fs.readFile(validateOutputPath(outcome.value.file_path)) : null
+    )
+  );
+  const sheet = await createContactSheet(images);
+  const sheetOutput = await writeImageOutput(sheet.data, generateFilename('contact_sheet', 'png'), {
+    format: 'png',
+    signal,
+    metadata: buildGenerationMetadata('generate_batch', {
+      contact_sheet: true,
+      items: results.map((item) => ('file_path' in item ? item.file_path : null)),
+    }),
+  });
+  summary.contact_sheet = sheetOutput;
+
+  if (!(input.return_image ?? inlineImagesDefault())) {
+    return toToolResult(summary);
+  }
+
+  // Inline the contact sheet rather than every variant
+  const result = await toImageToolResult(sheetOutput, true);
+  result.content[0].text = JSON.stringify(summary, null, 2);
+  return result;
+}
+
+async function handleEditImage(
+  args: any,
+  providers: ProviderRegistry,
+  signal?: AbortSignal
+): Promise<any> {
+  const input = editImageInputSchema.parse(args);
+  const provider = providers.get(input.provider);
+
+  logger.info('Editing image:', {
+    prompt: input.prompt.slice(0, 50) + '...',
+    images: input.input_images.length,
+  });
+
+  // Generate or validate output path
+  const filename = resolveOutputFilename('edit_image', input.output_format, input.output_path);
+
+  // Validate and load input images
+  const inputImages: InputImage[] = [];
+  for (const image of input.input_images) {
+    let imagePath: string;
+    try {
+      imagePath = validateOutputPath(image.path);
+    } catch {
+      throw new ToolError('invalid_path', `Input image must be in outputs/ directory: ${image.path}`);
+    }
+
+    const { data, mimeType } = await readImageAsBase64(imagePath);
+    inputImages.push({ data, mimeType, role: image.role });
+  }
+  const kit = input.brand ? getBrandKit(input.brand) : undefined;
+  const branded = await applyBrand(input.prompt, kit);
+
+  // Without an explicit size or aspect ratio, follow the proportions of the first image being edited
+  let size: string | undefined = input.size ?? (input.aspect_ratio ? sizeForAspectRatio(input.aspect_ratio) : undefined);
+  if (!size) {
+    const primary = inputImages.find((image) => image.role === 'source')
+      || inputImages.find((image) => image.role !== 'mask')!;
+    const dimensions = readImageDimensions(Buffer.from(primary.data, 'base64'));
+    size = dimensions ? `${dimensions.width}x${dimensions.height}` : undefined;
+  }
+
+  // Generate image; brand images go after the caller's, so the first image is still the one edited
+  const options: ImageGenerationOptions = {
+    prompt: branded.prompt,
+    size,
+    format: input.output_format,
+    inputImages: [...inputImages, ...branded.images],
+    ...generationControls(input),
+    signal,
+  };
+  const result = await callProvider(provider, options, 'edit_image');
+
+  const output = await saveImageResult(result, filename, {
+    format: input.output_format,
+    quality: input.quality,
+    size,
+    fit: input.fit,
+    signal,
+    metadata: providerMetadata('edit_image', { ...input, size }, provider),
+  }, provider);
+  output.ignored_options = ignoredControls(provider, options);
+  if (input.palette_check && kit) {
+    output.palette_check = await checkPalette(output, kit);
+  }
+  return toImageToolResult(output, input.return_image);
+}
+
 async function handleGenerateIcon(
   args: any,
-  provider: ImageProvider
+  providers: ProviderRegistry,
+  signal?: AbortSignal
 ): Promise<any> {
   const input = generateIconInputSchema.parse(args);
+  const provider = providers.get(input.provider);
 
   logger.info('Generating icon:', { concept: input.concept.slice(0, 50) + '...' });
 
   // Build prompt for icon generation
-  const themeDescriptions = {
-    minimal: 'minimalist, clean lines, simple shapes, modern',
-    playful: 'fun, colorful, rounded shapes, friendly',
-    corporate: 'professional, sleek, business-like, polished',
-  };
+  const kit = input.brand ? getBrandKit(input.brand) : undefined;
+  const { prompt, images } = await applyBrand(buildIconPrompt(input.concept, input.theme), kit);
 
-  const prompt = `A ${themeDescriptions[input.theme]} icon representing: ${input.concept}. Icon design, centered, clean background.`;
+  const filename = generateFilename('generate_icon', formatExtension(input.output_format));
+  const transparent = input.background === 'transparent';
 
-  const filename = generateFilename('generate_icon', input.output_format);
-
-  // Generate image
-  const result = await provider.generateImage({
+  // Generate image; an icon set needs a larger master than the icon itself
+  const options: ImageGenerationOptions = {
     prompt,
     style: 'flat',
-    size: input.size,
-    background: 'transparent',
+    size: input.export_icon_set ? ICON_SET_MASTER_SIZE : input.size,
+    background: input.background,
     format: input.output_format,
-  });
+    inputImages: brandReferenceImages(provider, images),
+    ...generationControls(input),
+    signal,
+  };
+  const result = await callProvider(provider, options, 'generate_icon');
 
-  // Save image
-  let filePath: string;
-  if (result.format === 'base64') {
-    filePath = await writeBase64Image(result.data, filename);
-  } else {
-    filePath = await downloadImage(result.data, filename);
+  // The icon set is made from the first candidate only
+  const master = await decodeImageResult(result, provider, transparent, signal);
+  const outputOptions: ImageOutputOptions = {
+    format: input.output_format,
+    quality: input.quality,
+    size: input.size,
+    fit: input.fit,
+    transparent,
+    signal,
+    metadata: providerMetadata('generate_icon', { ...input, prompt }, provider),
+  };
+  const output: ImageOutput = {
+    ...(await writeImageOutput(master, filename, outputOptions)),
+    provider: provider.getId(),
+    model: provider.getModel(),
+    candidates: await writeCandidateOutputs(
+      await decodeExtraCandidates(result, provider, transparent, signal),
+      filename,
+      outputOptions
+    ),
+    ignored_options: ignoredControls(provider, options, images),
+  };
+  if (input.palette_check && kit) {
+    output.palette_check = await checkPalette(output, kit);
   }
 
-  const { width, height } = parseSize(input.size);
+  if (input.export_icon_set) {
+    throwIfAborted(signal);
+    output.icon_set = await exportIconSet(master, input.export_icon_set, input.background_color);
+  }
 
-  const output: ImageOutput = {
-    ok: true,
-    file_path: toRelativePath(filePath),
-    mime_type: getMimeType(input.output_format),
-    width,
-    height,
-  };
+  return toImageToolResult(output, input.return_image);
+}
 
-  return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify(output, null, 2),
-      },
-    ],
+/**
+ * Build an app icon set from the master icon and write it as a zip or folder
+ */
+async function exportIconSet(
+  master: Buffer,
+  format: 'zip' | 'folder',
+  backgroundColor: string
+): Promise<NonNullable<ImageOutput['icon_set']>> {
+  const iconSet = await buildIconSet(master, { backgroundColor });
+  const summary = {
+    format,
+    files: iconSet.files.map((file) => file.path),
+    manifest: iconSet.manifest,
+    html: iconSet.html,
   };
+
+  if (format === 'zip') {
+    const filePath = await writeImageBuffer(createZip(iconSet.files), generateFilename('icon_set', 'zip'));
+    return { path: toRelativePath(filePath), resource_uri: toResourceUri(path.basename(filePath)), ...summary };
+  }
+
+  const dirPath = await writeOutputDirectory(generateFilename('icon_set'), iconSet.files);
+  return { path: toRelativePath(dirPath), ...summary };
 }
 
 async function handleGenerateHero(
   args: any,
-  provider: ImageProvider
+  providers: ProviderRegistry,
+  signal?: AbortSignal
 ): Promise<any> {
   const input = generateHeroInputSchema.parse(args);
+  const provider = providers.get(input.provider);
 
   logger.info('Generating hero image:', { product: input.product_name });
 
   // Build prompt for hero image
-  const vibeText = input.vibe ? `, ${input.vibe} vibe` : '';
-  const prompt = `Hero banner image for "${input.product_name}". ${input.tagline}${vibeText}. Professional, eye-catching, suitable for website header.`;
+  const kit = input.brand ? getBrandKit(input.brand) : undefined;
+  const { prompt, images } = await applyBrand(buildHeroPrompt(input.product_name, input.tagline, input.vibe), kit);
 
   // Check if provider is configured
   if (!provider.isConfigured()) {
     logger.warn('Provider not configured, returning suggested prompt only');
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            ok: false,
-            suggested_prompt: prompt,
-            message: 'Image provider not configured. Configure GEMINI_API_KEY to generate images.',
-          }, null, 2),
-        },
-      ],
-    };
+    return buildErrorResult(
+      new ProviderAuthError(`Image provider "${provider.getId()}" not configured. Configure its API key to generate images.`),
+      { suggested_prompt: prompt, provider: provider.getId() }
+    );
   }
 
-  const filename = generateFilename('generate_hero', input.output_format);
+  const filename = generateFilename('generate_hero', formatExtension(input.output_format));
 
   // Generate image
-  const result = await provider.generateImage({
+  const options: ImageGenerationOptions = {
     prompt,
     style: 'photoreal',
     size: input.size,
     background: 'solid',
     format: input.output_format,
-  });
+    inputImages: brandReferenceImages(provider, images),
+    ...generationControls(input),
+    signal,
+  };
+  const result = await callProvider(provider, options, 'generate_hero');
 
-  // Save image
-  let filePath: string;
-  if (result.format === 'base64') {
-    filePath = await writeBase64Image(result.data, filename);
-  } else {
-    filePath = await downloadImage(result.data, filename);
+  const output = await saveImageResult(result, filename, {
+    format: input.output_format,
+    quality: input.quality,
+    size: input.size,
+    fit: input.fit,
+    signal,
+    metadata: providerMetadata('generate_hero', { ...input, prompt }, provider),
+  }, provider);
+  output.ignored_options = ignoredControls(provider, options, images);
+  if (input.palette_check && kit) {
+    output.palette_check = await checkPalette(output, kit);
   }
+  return toImageToolResult(output, input.return_image);
+}
 
-  const output: ImageOutput = {
-    ok: true,
-    file_path: toRelativePath(filePath),
-    mime_type: getMimeType(input.output_format),
-    width: result.width,
-    height: result.height,
-  };
+async function handleBeautifyScreenshot(
+  args: any,
+  providers: ProviderRegistry,
+  signal?: AbortSignal
+): Promise<any> {
+  const input = beautifyScreenshotInputSchema.parse(args);
+  const provider = providers.get(input.provider);
 
-  return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify(output, null, 2),
-      },
-    ],
+  logger.info('Beautifying screenshot:', { path: input.input_image_path, goal: input.goal.slice(0, 50) + '...' });
+
+  // Validate input path
+  let inputPath: string;
+  try {
+    inputPath = validateOutputPath(input.input_image_path);
+  } catch {
+    throw new ToolError('invalid_path', 'Input image must be in outputs/ directory');
+  }
+
+  const screenshot = await readImageAsBase64(inputPath);
+
+  // Keep the screenshot's own proportions so the redesign isn't cropped
+  const dimensions = readImageDimensions(Buffer.from(screenshot.data, 'base64'));
+  const size = dimensions ? `${dimensions.width}x${dimensions.height}` : undefined;
+
+  const kit = input.brand ? getBrandKit(input.brand) : undefined;
+  const { prompt, images } = await applyBrand(
+    `Redesign this UI screenshot with the goal: ${input.goal}. Keep the same layout, content, text and functionality; improve the visual design with consistent spacing, color palette, typography hierarchy and alignment. Return the restyled screenshot.`,
+    kit
+  );
+
+  const filename = generateFilename('beautify_screenshot', formatExtension(input.output_format));
+
+  // Generate image
+  const options: ImageGenerationOptions = {
+    prompt,
+    size,
+    format: input.output_format,
+    inputImages: [screenshot, ...images],
+    ...generationControls(input),
+    signal,
   };
+  const result = await callProvider(provider, options, 'beautify_screenshot');
+
+  const output = await saveImageResult(result, filename, {
+    format: input.output_format,
+    quality: input.quality,
+    size,
+    fit: input.fit,
+    signal,
+    metadata: providerMetadata('beautify_screenshot', { ...input, prompt }, provider),
+  }, provider);
+  output.ignored_options = ignoredControls(provider, options);
+  if (input.palette_check && kit) {
+    output.palette_check = await checkPalette(output, kit);
+  }
+  return toImageToolResult(output, input.return_image);
 }
 
-async function handleBeautifyScreenshot(args: any): Promise<any> {
-  const input = beautifyScreenshotInputSchema.parse(args);
+async function handleRemoveBackground(args: any, signal?: AbortSignal): Promise<any> {
+  const input = removeBackgroundInputSchema.parse(args);
 
-  logger.info('Beautify screenshot (stub):', { path: input.input_image_path });
+  logger.info('Removing background:', { path: input.input_image_path, color: input.color || 'auto' });
 
   // Validate input path
+  let inputPath: string;
   try {
-    validateOutputPath(input.input_image_path);
+    inputPath = validateOutputPath(input.input_image_path);
   } catch {
-    throw new Error('Input image must be in outputs/ directory');
-  }
-
-  // Stub implementation - return design suggestions
-  const suggestions = [
-    'Increase whitespace and padding for a cleaner look',
-    'Use a consistent color palette throughout the UI',
-    'Improve typography hierarchy with varied font sizes',
-    'Add subtle shadows or borders to define sections',
-    'Ensure proper alignment of all elements',
-    'Consider using rounded corners for a modern feel',
-    'Optimize button sizes and spacing for better UX',
-  ];
+    throw new ToolError('invalid_path', 'Input image must be in outputs/ directory');
+  }
+
+  const filename = resolveOutputFilename('remove_background', input.output_format, input.output_path);
+
+  const source = await readImageAsBase64(inputPath);
+  const keyed = await removeBackground(Buffer.from(source.data, 'base64'), {
+    color: input.color,
+    tolerance: input.tolerance,
+    feather: input.feather,
+  });
+
+  if (!keyed) {
+    throw new ToolError('invalid_arguments', 'No uniform background found along the image border', {
+      details: [{ field: 'color', message: 'Pass the background color to remove', issue: 'custom' }],
+    });
+  }
+
+  const output = await writeImageOutput(keyed.data, filename, {
+    format: input.output_format,
+    quality: input.quality,
+    transparent: true,
+    signal,
+    metadata: buildGenerationMetadata('remove_background', { ...input, color: keyed.color }),
+  });
+  output.message = `Removed background color ${keyed.color}`;
+  return toImageToolResult(output, input.return_image);
+}
+
+/**
+ * Describe a file in outputs/, including the parameters recorded when it was generated
+ */
+async function handleGetImageInfo(args: any): Promise<any> {
+  const input = getImageInfoInputSchema.parse(args);
+  const filePath = validateOutputPath(input.file_path);
+
+  let buffer: Buffer;
+  let stats: Awaited<ReturnType<typeof fs.stat>>;
+  try {
+    [buffer, stats] = await Promise.all([fs.readFile(filePath), fs.stat(filePath)]);
+  } catch {
+    throw new ToolError('not_found', `File not found: ${input.file_path}`);
+  }
+
+  const format = sniffImageFormat(buffer);
+  const dimensions = format ? await measureImage(buffer) : null;
+  if (!format || !dimensions) {
+    throw new ToolError('unsupported_format', `Not a PNG, JPEG, WebP, AVIF or GIF image: ${input.file_path}`);
+  }
 
-  const output = {
+  const recorded = await readFileMetadata(filePath, buffer);
+
+  return toToolResult({
     ok: true,
-    message: 'Beautify screenshot is currently a stub implementation',
-    suggested_steps: suggestions,
-    note: 'To implement image editing, integrate an image manipulation API or library',
-  };
+    file_path: toRelativePath(filePath),
+    resource_uri: toResourceUri(path.basename(filePath)),
+    format,
+    mime_type: getMimeType(format),
+    width: dimensions.width,
+    height: dimensions.height,
+    file_size: stats.size,
+    modified_at: stats.mtime.toISOString(),
+    metadata: recorded?.metadata ?? null,
+    metadata_source: recorded?.source,
+  });
+}
 
-  return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify(output, null, 2),
-      },
-    ],
-  };
+// Filenames from generateFilename: {tool}_{timestamp}_{hash}[_{candidate}][.ext]
+const GENERATED_NAME_PATTERN = /^(.+)_\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}_[0-9a-f]{8}(_\d+)?(\.|$)/;
+
+/**
+ * Name of a top-level entry of outputs/ from a path as the tools return it
+ */
+function toOutputName(filePath: string): string {
+  const resolved = validateOutputPath(filePath);
+  if (path.dirname(resolved) !== getOutputsDir()) {
+    throw new ToolError('invalid_path', `Not a file in the outputs directory: ${filePath}`);
+  }
+  return path.basename(resolved);
+}
+
+async function handleListOutputs(args: any): Promise<any> {
+  const input = listOutputsInputSchema.parse(args ?? {});
+  const since = input.since ? Date.parse(input.since) : undefined;
+  const until = input.until ? Date.parse(input.until) : undefined;
+  const query = input.query?.toLowerCase();
+
+  const files = await listOutputFiles();
+  const names = new Set(files.map((file) => file.filename));
+  const matches = [];
+
+  for (const file of files) {
+    const extension = path.extname(file.filename).slice(1).toLowerCase();
+    // Metadata sidecars are reported through get_image_info, not as files of their own
+    if (extension === 'json' && names.has(file.filename.slice(0, -'.json'.length))) continue;
+
+    const tool = GENERATED_NAME_PATTERN.exec(file.filename)?.[1];
+    const format = extension === 'jpg' ? 'jpeg' : extension;
+    if (input.tool && tool !== input.tool) continue;
+    if (input.format && format !== input.format) continue;
+    if (since !== undefined && file.modified.getTime() < since) continue;
+    if (until !== undefined && file.modified.getTime() >= until) continue;
+
+    if (query && !file.filename.toLowerCase().includes(query)) {
+      const recorded = getMimeType(extension).startsWith('image/') ? await readFileMetadata(file.path).catch(() => null) : null;
+      const prompt = recorded?.metadata.parameters.prompt;
+      if (typeof prompt !== 'string' || !prompt.toLowerCase().includes(query)) continue;
+    }
+
+    matches.push({
+      file_path: toRelativePath(file.path),
+      resource_uri: toResourceUri(file.filename),
+      filename: file.filename,
+      tool,
+      mime_type: getMimeType(extension),
+      size: file.size,
+      modified_at: file.modified.toISOString(),
+    });
+  }
+
+  const offset = input.cursor ? parseInt(input.cursor, 10) : 0;
+  const page = matches.slice(offset, offset + input.limit);
+  return toToolResult({
+    ok: true,
+    total: matches.length,
+    count: page.length,
+    files: page,
+    next_cursor: offset + input.limit < matches.length ? String(offset + input.limit) : undefined,
+  });
+}
+
+async function handleDeleteOutput(args: any): Promise<any> {
+  const input = deleteOutputInputSchema.parse(args);
+  const filePath = await deleteOutput(toOutputName(input.file_path));
+  return toToolResult({ ok: true, file_path: toRelativePath(filePath), message: 'Deleted' });
+}
+
+async function handleRenameOutput(args: any): Promise<any> {
+  const input = renameOutputInputSchema.parse(args);
+  const fromName = toOutputName(input.file_path);
+  const filePath = await renameOutput(fromName, input.new_name);
+  return toToolResult({
+    ok: true,
+    file_path: toRelativePath(filePath),
+    resource_uri: toResourceUri(path.basename(filePath)),
+    previous_file_path: toRelativePath(safeJoinOutputs(fromName)),
+  });
+}
+
+/**
+ * Summarize the usage ledger, with the state of the spending budgets
+ */
+function handleGetUsage(args: any): any {
+  const input = getUsageInputSchema.parse(args ?? {});
+  const ledger = getUsageLedger();
+
+  return toToolResult({
+    ok: true,
+    currency: 'USD',
+    ...ledger.summarize({
+      since: input.since ? new Date(input.since) : undefined,
+      until: input.until ? new Date(input.until) : undefined,
+      tool: input.tool,
+      model: input.model,
+    }),
+    budgets: ledger.budgets(),
+  });
+}
+
+/**
+ * List the style presets of generate_image and generate_batch, the theme presets of generate_icon, and the brand kits
+ */
+function handleListStyles(args: any): any {
+  listStylesInputSchema.parse(args ?? {});
+  return toToolResult({
+    ok: true,
+    styles: listStyles(),
+    themes: listThemes(),
+    // Image paths are shown by name only
+    brands: listBrandKits().map(({ logo, references, minPaletteScore, ...kit }) => ({
+      ...kit,
+      logo: logo ? path.basename(logo) : undefined,
+      references: references.map((file) => path.basename(file)),
+      min_palette_score: minPaletteScore,
+    })),
+  });
 }
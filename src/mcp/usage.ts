@@ -0,0 +1,323 @@
+import fs from 'fs';
+import path from 'path';
+import type { ImageUsage } from '../providers/imageProvider.js';
+import { ToolError } from '../utils/errors.js';
+import { resolveProjectPath } from '../utils/paths.js';
+import { logger } from '../utils/log.js';
+
+/**
+ * Usage ledger and spending budgets
+ *
+ * Every provider call is appended to a JSON Lines file with the tokens and
+ * images the provider reported, the tool and model, how long it took and a
+ * cost estimated from a price table. Daily and monthly budgets are checked
+ * against the ledger before each call; periods are calendar days and months
+ * in UTC. Cache hits never reach the provider, so they are neither recorded
+ * nor refused.
+ */
+
+export interface ModelPrice {
+  /** USD per image, for models billed per image */
+  per_image?: number;
+  /** USD per million input tokens */
+  input_per_million?: number;
+  /** USD per million output tokens */
+  output_per_million?: number;
+}
+
+export interface UsageConfig {
+  ledgerFile: string;
+  /** Prices by model id */
+  prices: Record<string, ModelPrice>;
+  /** Spending allowed per UTC day; 0 disables */
+  dailyBudgetUsd: number;
+  /** Spending allowed per UTC month; 0 disables */
+  monthlyBudgetUsd: number;
+}
+
+export interface UsageRecord {
+  timestamp: string;
+  tool: string;
+  provider: string;
+  model: string;
+  images: number;
+  input_tokens?: number;
+  output_tokens?: number;
+  duration_ms: number;
+  /** Estimated from the price table; null when the model has no price */
+  cost_usd: number | null;
+}
+
+export interface UsageTotals {
+  calls: number;
+  images: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  /** Calls to models missing from the price table, not included in cost_usd */
+  unpriced_calls: number;
+  duration_ms: number;
+}
+
+export interface UsageFilter {
+  since?: Date;
+  until?: Date;
+  tool?: string;
+  model?: string;
+}
+
+export interface UsageSummary {
+  totals: UsageTotals;
+  by_day: Record<string, UsageTotals>;
+  by_tool: Record<string, UsageTotals>;
+  by_model: Record<string, UsageTotals>;
+}
+
+export type BudgetPeriod = 'daily' | 'monthly';
+
+export interface BudgetStatus {
+  limit_usd: number;
+  spent_usd: number;
+  remaining_usd: number;
+  resets_at: string;
+}
+
+/**
+ * List prices of the built-in providers' default models
+ * Gemini bills images as output tokens (about 1290 per image)
+ */
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-flash-image': { input_per_million: 0.3, output_per_million: 30 },
+  'gemini-2.5-flash-image-preview': { input_per_million: 0.3, output_per_million: 30 },
+  'gemini-3-pro-image-preview': { input_per_million: 2, output_per_million: 120 },
+  'gpt-image-1': { input_per_million: 5, output_per_million: 40 },
+  'dall-e-3': { per_image: 0.04 },
+  'mock-image-1': { per_image: 0 },
+};
+
+/**
+ * Read a price table file, e.g. { "gpt-image-1": { "output_per_million": 40 } }
+ * Invalid entries are skipped with a warning
+ */
+function loadPriceFile(filePath: string): Record<string, ModelPrice> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    logger.warn('Failed to read USAGE_PRICES_FILE, using default prices:', error);
+    return {};
+  }
+
+  const prices: Record<string, ModelPrice> = {};
+  for (const [model, price] of Object.entries(parsed && typeof parsed === 'object' ? parsed : {})) {
+    const fields = ['per_image', 'input_per_million', 'output_per_million'] as const;
+    const valid = price && typeof price === 'object'
+      && fields.every((field) => price[field] === undefined || (typeof price[field] === 'number' && price[field] >= 0));
+    if (valid) {
+      prices[model] = price as ModelPrice;
+    } else {
+      logger.warn('Ignoring invalid price for model:', model);
+    }
+  }
+  return prices;
+}
+
+/**
+ * Read usage and budget settings from the environment
+ */
+export function loadUsageConfig(): UsageConfig {
+  const priceFile = process.env.USAGE_PRICES_FILE;
+  return {
+    ledgerFile: resolveProjectPath(process.env.USAGE_LEDGER_FILE || './.usage/ledger.jsonl'),
+    prices: { ...DEFAULT_PRICES, ...(priceFile ? loadPriceFile(resolveProjectPath(priceFile)) : {}) },
+    dailyBudgetUsd: Math.max(0, parseFloat(process.env.USAGE_DAILY_BUDGET_USD || '0') || 0),
+    monthlyBudgetUsd: Math.max(0, parseFloat(process.env.USAGE_MONTHLY_BUDGET_USD || '0') || 0),
+  };
+}
+
+function roundUsd(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, images: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0, unpriced_calls: 0, duration_ms: 0 };
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord): void {
+  totals.calls++;
+  totals.images += record.images;
+  totals.input_tokens += record.input_tokens || 0;
+  totals.output_tokens += record.output_tokens || 0;
+  totals.duration_ms += record.duration_ms;
+  if (record.cost_usd === null) {
+    totals.unpriced_calls++;
+  } else {
+    totals.cost_usd = roundUsd(totals.cost_usd + record.cost_usd);
+  }
+}
+
+/**
+ * Start of the period containing `now`, and of the next one
+ */
+function periodBounds(period: BudgetPeriod, now: Date): { start: number; end: number } {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  return period === 'daily'
+    ? { start: Date.UTC(year, month, now.getUTCDate()), end: Date.UTC(year, month, now.getUTCDate() + 1) }
+    : { start: Date.UTC(year, month, 1), end: Date.UTC(year, month + 1, 1) };
+}
+
+export class UsageLedger {
+  private records: UsageRecord[] = [];
+
+  constructor(private config: UsageConfig) {
+    this.load();
+  }
+
+  /**
+   * Estimated cost of a call, or null when the model has no price
+   */
+  estimateCost(model: string, usage: ImageUsage): number | null {
+    const price = this.config.prices[model];
+    if (!price) {
+      return null;
+    }
+
+    return roundUsd(
+      (price.per_image || 0) * usage.images
+        + ((price.input_per_million || 0) * (usage.inputTokens || 0)) / 1e6
+        + ((price.output_per_million || 0) * (usage.outputTokens || 0)) / 1e6
+    );
+  }
+
+  /**
+   * Append a provider call to the ledger
+   * Write failures are logged; the call it describes has already succeeded
+   */
+  async record(call: {
+    tool: string;
+    provider: string;
+    model: string;
+    usage?: ImageUsage;
+    durationMs: number;
+    timestamp?: Date;
+  }): Promise<UsageRecord> {
+    const usage = call.usage || { images: 1 };
+    const record: UsageRecord = {
+      timestamp: (call.timestamp || new Date()).toISOString(),
+      tool: call.tool,
+      provider: call.provider,
+      model: call.model,
+      images: usage.images,
+      input_tokens: usage.inputTokens,
+      output_tokens: usage.outputTokens,
+      duration_ms: Math.round(call.durationMs),
+      cost_usd: this.estimateCost(call.model, usage),
+    };
+    this.records.push(record);
+
+    try {
+      await fs.promises.mkdir(path.dirname(this.config.ledgerFile), { recursive: true });
+      await fs.promises.appendFile(this.config.ledgerFile, JSON.stringify(record) + '\n');
+    } catch (error) {
+      logger.warn('Failed to write usage ledger:', error);
+    }
+    return record;
+  }
+
+  /**
+   * Throw budget_exceeded if the daily or monthly budget is already spent
+   * With a budget set, calls to a model without a price are refused too,
+   * since they could never count towards it
+   */
+  checkBudget(model?: string, now = new Date()): void {
+    const budgeted = this.config.dailyBudgetUsd > 0 || this.config.monthlyBudgetUsd > 0;
+    if (budgeted && model !== undefined && !this.config.prices[model]) {
+      throw new ToolError(
+        'unpriced_model',
+        `Model "${model}" has no price, so the spending budget can't be enforced. Add it to USAGE_PRICES_FILE`,
+        { details: { model } }
+      );
+    }
+
+    for (const [period, status] of Object.entries(this.budgets(now)) as Array<[BudgetPeriod, BudgetStatus]>) {
+      if (status.remaining_usd > 0) continue;
+
+      throw new ToolError(
+        'budget_exceeded',
+        `${period === 'daily' ? 'Daily' : 'Monthly'} budget of $${status.limit_usd.toFixed(2)} reached ($${status.spent_usd.toFixed(2)} spent). New generations are refused until ${status.resets_at}`,
+        { details: { period, ...status } }
+      );
+    }
+  }
+
+  /**
+   * Spending against each configured budget
+   */
+  budgets(now = new Date()): Partial<Record<BudgetPeriod, BudgetStatus>> {
+    const budgets: Partial<Record<BudgetPeriod, BudgetStatus>> = {};
+    const limits: Array<[BudgetPeriod, number]> = [['daily', this.config.dailyBudgetUsd], ['monthly', this.config.monthlyBudgetUsd]];
+
+    for (const [period, limit] of limits) {
+      if (limit <= 0) continue;
+
+      const { start, end } = periodBounds(period, now);
+      const spent = this.summarize({ since: new Date(start), until: new Date(end) }).totals.cost_usd;
+      budgets[period] = {
+        limit_usd: limit,
+        spent_usd: spent,
+        remaining_usd: roundUsd(Math.max(0, limit - spent)),
+        resets_at: new Date(end).toISOString(),
+      };
+    }
+    return budgets;
+  }
+
+  /**
+   * Totals of the matching calls, overall and by UTC day, tool and model
+   */
+  summarize(filter: UsageFilter = {}): UsageSummary {
+    const summary: UsageSummary = { totals: emptyTotals(), by_day: {}, by_tool: {}, by_model: {} };
+    const since = filter.since?.getTime();
+    const until = filter.until?.getTime();
+
+    for (const record of this.records) {
+      const time = Date.parse(record.timestamp);
+      if (since !== undefined && time < since) continue;
+      if (until !== undefined && time >= until) continue;
+      if (filter.tool && record.tool !== filter.tool) continue;
+      if (filter.model && record.model !== filter.model) continue;
+
+      addRecord(summary.totals, record);
+      addRecord(summary.by_day[record.timestamp.slice(0, 10)] ??= emptyTotals(), record);
+      addRecord(summary.by_tool[record.tool] ??= emptyTotals(), record);
+      addRecord(summary.by_model[record.model] ??= emptyTotals(), record);
+    }
+    return summary;
+  }
+
+  private load(): void {
+    let text: string;
+    try {
+      text = fs.readFileSync(this.config.ledgerFile, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn('Failed to read usage ledger, starting empty:', error);
+      }
+      return;
+    }
+
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const record = JSON.parse(line) as UsageRecord;
+        if (typeof record.timestamp === 'string' && typeof record.model === 'string') {
+          this.records.push(record);
+        }
+      } catch {
+        // A line cut short by a crash; the rest of the ledger is still good
+        logger.warn('Skipping unreadable usage ledger line');
+      }
+    }
+  }
+}
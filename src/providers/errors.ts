@@ -0,0 +1,147 @@
+import { ToolError } from '../utils/errors.js';
+import { cancelledError } from '../utils/abort.js';
+
+/**
+ * Typed provider errors
+ *
+ * Providers map upstream failures onto these classes so callers can tell a
+ * bad request from a quota problem or a safety refusal, and know whether
+ * trying again later can help.
+ */
+
+export type ProviderErrorCode =
+  | 'auth'
+  | 'quota'
+  | 'safety_blocked'
+  | 'bad_request'
+  | 'upstream_unavailable'
+  | 'timeout';
+
+export class ProviderError extends Error {
+  readonly code: ProviderErrorCode;
+  readonly retryable: boolean;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    code: ProviderErrorCode,
+    message: string,
+    options: { retryable?: boolean; status?: number; retryAfterMs?: number } = {}
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.retryable = options.retryable ?? false;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/** Missing, invalid or unauthorized API key */
+export class ProviderAuthError extends ProviderError {
+  constructor(message: string, status?: number) {
+    super('auth', message, { status });
+  }
+}
+
+/** Rate limit or quota exhausted */
+export class ProviderQuotaError extends ProviderError {
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super('quota', message, { retryable: true, status, retryAfterMs });
+  }
+}
+
+/** Prompt or output refused by the provider's safety filters */
+export class SafetyBlockedError extends ProviderError {
+  constructor(message: string) {
+    super('safety_blocked', message);
+  }
+}
+
+/** Request rejected as invalid; retrying unchanged will not help */
+export class BadRequestError extends ProviderError {
+  constructor(message: string, status?: number) {
+    super('bad_request', message, { status });
+  }
+}
+
+/** Server error, network failure or unparseable response */
+export class UpstreamUnavailableError extends ProviderError {
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super('upstream_unavailable', message, { retryable: true, status, retryAfterMs });
+  }
+}
+
+/** No response within the configured timeout */
+export class ProviderTimeoutError extends ProviderError {
+  constructor(message: string) {
+    super('timeout', message, { retryable: true });
+  }
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Map an HTTP error status onto a typed provider error
+ */
+export function classifyHttpError(
+  status: number,
+  message: string,
+  retryAfterMs?: number
+): ProviderError {
+  if (status === 401 || status === 403) {
+    return new ProviderAuthError(message, status);
+  }
+  if (status === 429) {
+    return new ProviderQuotaError(message, status, retryAfterMs);
+  }
+  if (status === 408) {
+    return new ProviderTimeoutError(message);
+  }
+  if (status >= 500) {
+    return new UpstreamUnavailableError(message, status, retryAfterMs);
+  }
+  return new BadRequestError(message, status);
+}
+
+/**
+ * Map a thrown fetch error (abort, timeout, network) onto a typed provider error
+ * A request aborted by the client becomes the cancellation error instead
+ */
+export function classifyFetchError(error: unknown, timeoutMs?: number, signal?: AbortSignal): ProviderError | ToolError {
+  if (error instanceof ProviderError || error instanceof ToolError) {
+    return error;
+  }
+  if (signal?.aborted) {
+    return cancelledError();
+  }
+
+  const name = error instanceof Error ? error.name : '';
+  if (name === 'TimeoutError' || name === 'AbortError') {
+    return new ProviderTimeoutError(`Request timed out${timeoutMs ? ` after ${timeoutMs}ms` : ''}`);
+  }
+
+  const detail = error instanceof Error
+    ? (error.cause instanceof Error ? error.cause.message : error.message)
+    : 'Unknown error';
+  return new UpstreamUnavailableError(`Network error: ${detail}`);
+}
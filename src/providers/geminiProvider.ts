@@ -1,15 +1,56 @@
 import {
+  GenerationControl,
+  ImageCandidate,
   ImageProvider,
   ImageGenerationOptions,
   ImageGenerationResult,
+  ImageUsage,
+  InputImage,
+  InputImageRole,
 } from './imageProvider.js';
 import { logger } from '../utils/log.js';
 import { parseSize } from '../utils/files.js';
+import { readImageDimensions } from '../utils/image.js';
+import { withRetry } from '../utils/retry.js';
+import { anySignal, isCancelledError } from '../utils/abort.js';
+import { applyBackgroundPrompt, applyNegativePrompt, applyStylePrompt } from './prompt.js';
+import {
+  ProviderError,
+  ProviderAuthError,
+  SafetyBlockedError,
+  UpstreamUnavailableError,
+  classifyHttpError,
+  classifyFetchError,
+  parseRetryAfter,
+} from './errors.js';
 
 interface GeminiConfig {
   apiKey: string;
   baseUrl: string;
   model: string;
+  maxRetries: number;
+  timeoutMs: number;
+}
+
+// Aspect ratios imageConfig accepts
+const ASPECT_RATIOS = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'];
+
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
+
+// finishReason values that mean the output was withheld for safety reasons
+const SAFETY_FINISH_REASONS = [
+  'SAFETY',
+  'IMAGE_SAFETY',
+  'PROHIBITED_CONTENT',
+  'BLOCKLIST',
+  'SPII',
+  'RECITATION',
+];
+
+// JSON.stringify replacer for the debug log: logs the length of inline image data instead of the base64
+function redactImageData(key: string, value: unknown): unknown {
+  return key === 'data' && typeof value === 'string' ? `<${value.length} base64 chars>` : value;
 }
 
 /**
@@ -32,17 +73,34 @@ export class GeminiProvider implements ImageProvider {
       apiKey: process.env.GEMINI_API_KEY || '',
       baseUrl: process.env.GEMINI_BASE_URL || 'https://generativelanguage.googleapis.com',
       model: process.env.GEMINI_MODEL || 'gemini-2.5-flash-image',
+      maxRetries: Math.max(0, parseInt(process.env.GEMINI_MAX_RETRIES || '3', 10) || 0),
+      timeoutMs: Math.max(1000, parseInt(process.env.GEMINI_TIMEOUT_MS || '120000', 10) || 120000),
     };
   }
 
+  getId(): string {
+    return 'gemini';
+  }
+
   getName(): string {
     return 'Gemini Nano Banana';
   }
 
+  getModel(): string {
+    return this.config.model;
+  }
+
   isConfigured(): boolean {
     return !!this.config.apiKey && !!this.config.baseUrl;
   }
 
+  /**
+   * Gemini has no negative prompt field, so negative_prompt is added to the prompt
+   */
+  getSupportedControls(): GenerationControl[] {
+    return ['seed', 'temperature', 'candidate_count', 'negative_prompt', 'aspect_ratio', 'reference_images'];
+  }
+
   /**
    * Build the request body for Gemini Nano Banana API
    * Uses the official generateContent format
@@ -50,64 +108,83 @@ export class GeminiProvider implements ImageProvider {
   private buildRequestBody(options: ImageGenerationOptions): any {
     const { width, height } = parseSize(options.size || '1024x1024');
 
-    // Build the prompt with style and background preferences
-    let enhancedPrompt = options.prompt;
+    // Build the prompt with style, negative guidance and background preferences
+    const enhancedPrompt = applyBackgroundPrompt(
+      applyNegativePrompt(applyStylePrompt(options.prompt, options.style), options.negativePrompt),
+      options.background
+    );
 
-    if (options.style && options.style !== 'illustration') {
-      const styleDescriptions: Record<string, string> = {
-        '3d': '3D rendered style',
-        'flat': 'flat design style',
-        'photoreal': 'photorealistic style',
-        'anime': 'anime art style',
-        'pixel': 'pixel art style',
-      };
-      enhancedPrompt = `${styleDescriptions[options.style] || options.style}, ${enhancedPrompt}`;
-    }
+    // Determine aspect ratio from the requested ratio, otherwise from size
+    const [ratioWidth, ratioHeight] = options.aspectRatio ? options.aspectRatio.split(':').map(Number) : [width, height];
+    const aspectRatio = this.getAspectRatio(ratioWidth, ratioHeight);
 
-    if (options.background === 'transparent') {
-      enhancedPrompt += ', transparent background';
-    }
+    // Input images go before the instruction, as the docs recommend for edits
+    const imageParts = this.buildImageParts(options.inputImages || []);
 
-    // Determine aspect ratio from size
-    const aspectRatio = this.getAspectRatio(width, height);
+    const generationConfig: Record<string, unknown> = {
+      responseModalities: ['IMAGE'],
+      imageConfig: {
+        aspectRatio: aspectRatio,
+        // Note: Gemini uses predefined sizes, not exact dimensions
+        // Available: 1K, 2K, 4K
+        imageSize: this.getImageSize(width, height)
+      }
+    };
+    if (options.seed !== undefined) generationConfig.seed = options.seed;
+    if (options.temperature !== undefined) generationConfig.temperature = options.temperature;
+    if (options.candidateCount !== undefined) generationConfig.candidateCount = options.candidateCount;
 
     // Official Gemini API format
     return {
       contents: [{
         parts: [
+          ...imageParts,
           { text: enhancedPrompt }
         ]
       }],
-      generationConfig: {
-        responseModalities: ['IMAGE'],
-        imageConfig: {
-          aspectRatio: aspectRatio,
-          // Note: Gemini uses predefined sizes, not exact dimensions
-          // Available: 1K, 2K, 4K
-          imageSize: this.getImageSize(width, height)
-        }
-      }
+      generationConfig,
+    };
+  }
+
+  /**
+   * Build inline_data parts for input images
+   * Gemini has no native mask or reference slots, so when several images or
+   * non-source roles are involved each image is preceded by a text label
+   */
+  private buildImageParts(images: InputImage[]): any[] {
+    const needsLabels = images.length > 1 || images.some((image) => image.role && image.role !== 'source');
+    const roleLabels: Record<InputImageRole, string> = {
+      source: 'source image to edit',
+      mask: 'edit mask: only change the regions that are white in this mask, keep black regions unchanged',
+      reference: 'reference image: use its subject, elements or style as described in the instructions',
     };
+
+    const parts: any[] = [];
+    images.forEach((image, index) => {
+      if (needsLabels) {
+        parts.push({ text: `Image ${index + 1} (${roleLabels[image.role || 'source']}):` });
+      }
+      parts.push({
+        inline_data: {
+          mime_type: image.mimeType,
+          data: image.data,
+        },
+      });
+    });
+
+    return parts;
   }
 
   /**
-   * Convert width/height to Gemini aspect ratio format
+   * Convert width/height to the closest Gemini aspect ratio
+   * The server crops the result to the exact size afterwards
    */
   private getAspectRatio(width: number, height: number): string {
-    if (width === height) return '1:1';
-    if (width > height) {
-      // Landscape
-      const ratio = width / height;
-      if (ratio >= 1.4 && ratio <= 1.6) return '3:2';
-      if (ratio >= 1.7) return '16:9';
-      return '4:3';
-    } else {
-      // Portrait
-      const ratio = height / width;
-      if (ratio >= 1.4 && ratio <= 1.6) return '2:3';
-      if (ratio >= 1.7) return '9:16';
-      return '3:4';
-    }
+    const distance = (ratio: string) => {
+      const [ratioWidth, ratioHeight] = ratio.split(':').map(Number);
+      return Math.abs(Math.log((width / height) / (ratioWidth / ratioHeight)));
+    };
+    return ASPECT_RATIOS.reduce((best, ratio) => (distance(ratio) < distance(best) ? ratio : best));
   }
 
   /**
@@ -127,25 +204,35 @@ export class GeminiProvider implements ImageProvider {
   private parseResponse(response: any, size: string): ImageGenerationResult {
     const { width, height } = parseSize(size);
 
-    // Official Gemini response format
+    // Official Gemini response format, one image per candidate
+    const images: ImageCandidate[] = [];
     if (response.candidates && Array.isArray(response.candidates)) {
       for (const candidate of response.candidates) {
-        if (candidate.content?.parts) {
-          for (const part of candidate.content.parts) {
-            // Image data in inline_data
-            if (part.inline_data?.data) {
-              return {
-                data: part.inline_data.data,
-                format: 'base64',
-                width,
-                height,
-              };
-            }
-          }
+        // Image data in inlineData (REST responses) or inline_data
+        const inlineData = Array.isArray(candidate?.content?.parts)
+          ? candidate.content.parts.map((part: any) => part.inlineData || part.inline_data).find((data: any) => data?.data)
+          : undefined;
+        if (inlineData) {
+          // Gemini picks a preset resolution; report what it actually sent
+          const actual = readImageDimensions(Buffer.from(inlineData.data, 'base64'));
+          images.push({
+            data: inlineData.data,
+            format: 'base64',
+            width: actual?.width ?? width,
+            height: actual?.height ?? height,
+          });
         }
       }
     }
 
+    if (images.length > 0) {
+      return {
+        ...images[0],
+        usage: this.parseUsage(response.usageMetadata, images.length),
+        candidates: images.length > 1 ? images : undefined,
+      };
+    }
+
     // Fallback: Try alternative formats for compatibility
 
     // Format 1: Direct base64 in 'image' field
@@ -178,23 +265,38 @@ export class GeminiProvider implements ImageProvider {
       };
     }
 
-    logger.error('Unable to parse Gemini response:', JSON.stringify(response, null, 2));
-    throw new Error('Unable to parse image from Gemini response. Expected format: candidates[0].content.parts[].inline_data.data');
-  }
-
-  async generateImage(options: ImageGenerationOptions): Promise<ImageGenerationResult> {
-    if (!this.isConfigured()) {
-      throw new Error('Gemini provider not configured. Set GEMINI_API_KEY in your .env file');
+    // No image: tell a safety refusal apart from a malformed response
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+      throw new SafetyBlockedError(`Prompt blocked by Gemini safety filters: ${blockReason}`);
     }
 
-    const requestBody = this.buildRequestBody(options);
+    const finishReason = Array.isArray(response.candidates)
+      ? response.candidates.map((candidate: any) => candidate?.finishReason).find((reason: any) => SAFETY_FINISH_REASONS.includes(reason))
+      : undefined;
+    if (finishReason) {
+      throw new SafetyBlockedError(`Image blocked by Gemini safety filters: ${finishReason}`);
+    }
 
-    // Official Gemini API endpoint for Nano Banana
-    const endpoint = `${this.config.baseUrl}/v1beta/models/${this.config.model}:generateContent`;
+    logger.error('Unable to parse Gemini response:', JSON.stringify(response, null, 2));
+    throw new UpstreamUnavailableError('Unable to parse image from Gemini response. Expected format: candidates[0].content.parts[].inline_data.data');
+  }
 
-    logger.debug('Gemini Nano Banana API request:', { endpoint, model: this.config.model });
-    logger.debug('Request body:', JSON.stringify(requestBody, null, 2));
+  /**
+   * Token counts from usageMetadata, when Gemini sends it
+   */
+  private parseUsage(usageMetadata: any, images: number): ImageUsage {
+    return {
+      inputTokens: typeof usageMetadata?.promptTokenCount === 'number' ? usageMetadata.promptTokenCount : undefined,
+      outputTokens: typeof usageMetadata?.candidatesTokenCount === 'number' ? usageMetadata.candidatesTokenCount : undefined,
+      images,
+    };
+  }
 
+  /**
+   * Send one generateContent request, mapping failures onto typed errors
+   */
+  private async sendRequest(endpoint: string, requestBody: any, signal?: AbortSignal): Promise<any> {
     try {
       const response = await fetch(endpoint, {
         method: 'POST',
@@ -204,21 +306,91 @@ export class GeminiProvider implements ImageProvider {
           'x-goog-api-key': this.config.apiKey,
         },
         body: JSON.stringify(requestBody),
+        signal: anySignal([AbortSignal.timeout(this.config.timeoutMs), signal]),
       });
 
       if (!response.ok) {
         const errorText = await response.text();
         logger.error('Gemini API error:', errorText);
-        throw new Error(`Gemini API error: ${response.status} ${response.statusText}`);
+
+        const { message, retryDelayMs } = this.parseErrorBody(errorText);
+        const retryAfterMs = parseRetryAfter(response.headers.get('retry-after')) ?? retryDelayMs;
+        throw classifyHttpError(
+          response.status,
+          `Gemini API error: ${response.status} ${response.statusText}${message ? ` - ${message}` : ''}`,
+          retryAfterMs
+        );
       }
 
-      const data = await response.json();
+      try {
+        return await response.json();
+      } catch (error) {
+        if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+          throw error;
+        }
+        throw new UpstreamUnavailableError('Gemini API returned a response that is not valid JSON', response.status);
+      }
+    } catch (error) {
+      throw classifyFetchError(error, this.config.timeoutMs, signal);
+    }
+  }
+
+  /**
+   * Extract the message and RetryInfo delay from a Gemini error body
+   * Format: { error: { message, status, details: [{ retryDelay: '17s' }] } }
+   */
+  private parseErrorBody(errorText: string): { message?: string; retryDelayMs?: number } {
+    try {
+      const error = JSON.parse(errorText)?.error;
+      const retryDelay = Array.isArray(error?.details)
+        ? error.details.find((detail: any) => typeof detail?.retryDelay === 'string')?.retryDelay
+        : undefined;
+      const seconds = retryDelay ? parseFloat(retryDelay) : NaN;
+
+      return {
+        message: typeof error?.message === 'string' ? error.message : undefined,
+        retryDelayMs: Number.isFinite(seconds) ? seconds * 1000 : undefined,
+      };
+    } catch {
+      return {};
+    }
+  }
+
+  async generateImage(options: ImageGenerationOptions): Promise<ImageGenerationResult> {
+    if (!this.isConfigured()) {
+      throw new ProviderAuthError('Gemini provider not configured. Set GEMINI_API_KEY in your .env file');
+    }
+
+    const requestBody = this.buildRequestBody(options);
+
+    // Official Gemini API endpoint for Nano Banana
+    const endpoint = `${this.config.baseUrl}/v1beta/models/${this.config.model}:generateContent`;
+
+    logger.debug('Gemini Nano Banana API request:', { endpoint, model: this.config.model });
+    logger.debug('Request body:', JSON.stringify(requestBody, redactImageData, 2));
+
+    try {
+      const data = await withRetry(() => this.sendRequest(endpoint, requestBody, options.signal), {
+        retries: this.config.maxRetries,
+        baseDelayMs: RETRY_BASE_DELAY_MS,
+        maxDelayMs: RETRY_MAX_DELAY_MS,
+        shouldRetry: (error) => error instanceof ProviderError && error.retryable,
+        getRetryAfterMs: (error) => (error instanceof ProviderError ? error.retryAfterMs : undefined),
+        signal: options.signal,
+      });
       logger.debug('Gemini API response received');
 
       return this.parseResponse(data, options.size || '1024x1024');
     } catch (error) {
+      if (isCancelledError(error)) {
+        logger.info('Gemini request cancelled');
+        throw error;
+      }
       logger.error('Failed to generate image with Gemini:', error);
-      throw new Error(`Image generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      if (error instanceof ProviderError) {
+        throw error;
+      }
+      throw new UpstreamUnavailableError(`Image generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 }
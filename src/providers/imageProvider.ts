@@ -1,21 +1,55 @@
+export type InputImageRole = 'source' | 'mask' | 'reference';
+
+export interface InputImage {
+  data: string; // base64
+  mimeType: string;
+  role?: InputImageRole; // defaults to 'source'
+}
+
+/**
+ * Advanced controls, named as in the tool arguments
+ * Providers declare which ones they honor; the server reports the rest as ignored.
+ * reference_images is a brand's logo and references on a call with no image to edit
+ */
+export type GenerationControl = 'seed' | 'temperature' | 'candidate_count' | 'negative_prompt' | 'aspect_ratio' | 'reference_images';
+
 export interface ImageGenerationOptions {
   prompt: string;
   style?: string;
   size?: string;
   background?: string;
   format?: string;
+  inputImages?: InputImage[];
+  seed?: number;
+  temperature?: number;
+  candidateCount?: number; // images to return; defaults to 1
+  negativePrompt?: string; // what the image should avoid
+  aspectRatio?: string; // W:H, e.g. '21:9'; size already follows it
+  signal?: AbortSignal; // aborts the upstream request when the client cancels
 }
 
-export interface ImageGenerationResult {
+export interface ImageUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  images: number;
+}
+
+export interface ImageCandidate {
   data: string; // base64 or URL
   format: 'base64' | 'url';
+  // Best known dimensions; the server measures the saved file before reporting
   width: number;
   height: number;
 }
 
+export interface ImageGenerationResult extends ImageCandidate {
+  usage?: ImageUsage; // as reported by the provider, for the usage ledger
+  candidates?: ImageCandidate[]; // every image when more than one came back, the first being the one above
+}
+
 export interface ImageProvider {
   /**
-   * Generate an image from a text prompt
+   * Generate an image from a text prompt, optionally editing the given input images
    */
   generateImage(options: ImageGenerationOptions): Promise<ImageGenerationResult>;
 
@@ -24,8 +58,23 @@ export interface ImageProvider {
    */
   isConfigured(): boolean;
 
+  /**
+   * Get the registry id used to select this provider (e.g. 'gemini')
+   */
+  getId(): string;
+
   /**
    * Get provider name
    */
   getName(): string;
+
+  /**
+   * Get the model that serves requests
+   */
+  getModel(): string;
+
+  /**
+   * Get the advanced controls this provider passes on to its model
+   */
+  getSupportedControls(): GenerationControl[];
 }
@@ -0,0 +1,206 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import {
+  GenerationControl,
+  ImageCandidate,
+  ImageProvider,
+  ImageGenerationOptions,
+  ImageGenerationResult,
+} from './imageProvider.js';
+import { logger } from '../utils/log.js';
+import { parseSize } from '../utils/files.js';
+import { abortableDelay, throwIfAborted } from '../utils/abort.js';
+import {
+  ProviderError,
+  ProviderQuotaError,
+  SafetyBlockedError,
+  UpstreamUnavailableError,
+} from './errors.js';
+
+export type MockFailureMode = 'rate_limit' | 'safety' | 'malformed';
+
+interface MockConfig {
+  failures: MockFailureMode[];
+  failureRate: number;
+  latencyMs: number;
+  /** Fixed output size, ignoring the request (like providers that only return presets) */
+  imageSize?: string;
+}
+
+const FAILURE_MODES: MockFailureMode[] = ['rate_limit', 'safety', 'malformed'];
+
+/**
+ * Offline mock provider
+ *
+ * Draws a deterministic abstract image from a hash of the request, so the
+ * same prompt, style and background always produce the same bytes. Needs no
+ * network or API key, which makes it suitable for development and tests.
+ * A seed or negative prompt changes the hash, and each extra candidate is
+ * drawn from the hash of its index; temperature has nothing to vary.
+ *
+ * Failures can be simulated with MOCK_FAILURE (comma-separated list of
+ * rate_limit, safety, malformed) and MOCK_FAILURE_RATE (0-1, default 1).
+ * Whether a request fails is also derived from its hash, so it is repeatable.
+ * MOCK_IMAGE_SIZE (e.g. 1024x1024) renders every image at that size instead
+ * of the requested one. Like a real model following our prompt, a transparent
+ * background is drawn as a flat chroma green backdrop for the server to key out.
+ */
+export class MockProvider implements ImageProvider {
+  private config: MockConfig;
+
+  constructor() {
+    const failures = (process.env.MOCK_FAILURE || '')
+      .split(',')
+      .map((mode) => mode.trim().toLowerCase())
+      .filter((mode): mode is MockFailureMode => FAILURE_MODES.includes(mode as MockFailureMode));
+    // A non-numeric rate falls back to the default; 0 is a valid rate
+    const failureRate = parseFloat(process.env.MOCK_FAILURE_RATE || '1');
+
+    this.config = {
+      failures,
+      failureRate: Number.isNaN(failureRate) ? 1 : Math.min(1, Math.max(0, failureRate)),
+      latencyMs: Math.max(0, parseInt(process.env.MOCK_LATENCY_MS || '0', 10) || 0),
+      imageSize: process.env.MOCK_IMAGE_SIZE || undefined,
+    };
+  }
+
+  getId(): string {
+    return 'mock';
+  }
+
+  getName(): string {
+    return 'Mock (offline)';
+  }
+
+  getModel(): string {
+    return 'mock-image-1';
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  getSupportedControls(): GenerationControl[] {
+    return ['seed', 'candidate_count', 'negative_prompt', 'aspect_ratio', 'reference_images'];
+  }
+
+  /**
+   * Hash everything that influences the output
+   */
+  private hashOptions(options: ImageGenerationOptions): Buffer {
+    const hash = crypto.createHash('sha256');
+    hash.update(JSON.stringify([options.prompt, options.style || '', options.background || '']));
+    for (const image of options.inputImages || []) {
+      hash.update(image.role || 'source');
+      hash.update(image.data);
+    }
+    // Only when set, so plain requests keep drawing the same images
+    if (options.seed !== undefined) hash.update(`seed:${options.seed}`);
+    if (options.negativePrompt) hash.update(`negative:${options.negativePrompt}`);
+    return hash.digest();
+  }
+
+  /**
+   * Throw the configured failure for this request, if any
+   */
+  private simulateFailure(seed: Buffer): void {
+    if (this.config.failures.length === 0) {
+      return;
+    }
+
+    // Use bytes the drawing doesn't depend on to decide
+    const roll = seed.readUInt16BE(30) / 0xffff;
+    if (roll >= this.config.failureRate) {
+      return;
+    }
+
+    const mode = this.config.failures[seed[29] % this.config.failures.length];
+    switch (mode) {
+      case 'rate_limit':
+        throw new ProviderQuotaError('Mock API error: 429 Too Many Requests (simulated rate limit)', 429, 1000);
+      case 'safety':
+        throw new SafetyBlockedError('Image blocked by mock safety filters (simulated)');
+      case 'malformed':
+        throw new UpstreamUnavailableError('Unable to parse image from mock response (simulated malformed response)');
+    }
+  }
+
+  /**
+   * Draw an SVG of gradient (or chroma green) background plus a few shapes picked from the seed
+   */
+  private buildSvg(seed: Buffer, width: number, height: number, transparent: boolean): string {
+    const hue = (index: number) => Math.round((seed[index] / 255) * 360);
+    const color = (index: number, lightness: number) =>
+      `hsl(${hue(index)}, ${55 + (seed[index + 1] % 35)}%, ${lightness}%)`;
+
+    const shapes: string[] = [];
+    const shapeCount = 3 + (seed[2] % 4);
+    const minDim = Math.min(width, height);
+    // Shapes must not blend with the chroma backdrop
+    const opacity = transparent ? 1 : 0.85;
+
+    for (let i = 0; i < shapeCount; i++) {
+      const base = 4 + i * 4;
+      const cx = Math.round((seed[base] / 255) * width);
+      const cy = Math.round((seed[base + 1] / 255) * height);
+      const radius = Math.round(minDim * (0.08 + (seed[base + 2] / 255) * 0.25));
+      const fill = color(base + 3, 45 + (i % 3) * 10);
+
+      if (seed[base + 2] % 2 === 0) {
+        shapes.push(`<circle cx="${cx}" cy="${cy}" r="${radius}" fill="${fill}" fill-opacity="${opacity}"/>`);
+      } else {
+        const rotation = Math.round((seed[base + 3] / 255) * 90);
+        shapes.push(
+          `<rect x="${cx - radius}" y="${cy - radius}" width="${radius * 2}" height="${radius * 2}" rx="${Math.round(radius / 4)}" fill="${fill}" fill-opacity="${opacity}" transform="rotate(${rotation} ${cx} ${cy})"/>`
+        );
+      }
+    }
+
+    const background = transparent
+      ? '<rect width="100%" height="100%" fill="#00ff00"/>'
+      : `<defs><linearGradient id="bg" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="${color(0, 85)}"/><stop offset="1" stop-color="${color(1, 65)}"/></linearGradient></defs><rect width="100%" height="100%" fill="url(#bg)"/>`;
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">${background}${shapes.join('')}</svg>`;
+  }
+
+  async generateImage(options: ImageGenerationOptions): Promise<ImageGenerationResult> {
+    const { width, height } = parseSize(this.config.imageSize || options.size || '1024x1024');
+    const seed = this.hashOptions(options);
+
+    logger.debug('Mock provider request:', { size: `${width}x${height}`, seed: seed.toString('hex').slice(0, 12) });
+
+    if (this.config.latencyMs > 0) {
+      await abortableDelay(this.config.latencyMs, options.signal);
+    }
+    throwIfAborted(options.signal);
+
+    try {
+      this.simulateFailure(seed);
+
+      const count = options.candidateCount ?? 1;
+      const images: ImageCandidate[] = [];
+      for (let index = 0; index < count; index++) {
+        const candidateSeed = index === 0 ? seed : crypto.createHash('sha256').update(seed).update(String(index)).digest();
+        const svg = this.buildSvg(candidateSeed, width, height, options.background === 'transparent');
+        const image = sharp(Buffer.from(svg));
+        const buffer = options.format === 'webp'
+          ? await image.webp({ quality: 90 }).toBuffer()
+          : await image.png().toBuffer();
+        images.push({ data: buffer.toString('base64'), format: 'base64', width, height });
+      }
+
+      return {
+        ...images[0],
+        // Roughly what Gemini reports per image, so the usage ledger has tokens to record
+        usage: { inputTokens: Math.ceil(options.prompt.length / 4), outputTokens: 1290 * count, images: count },
+        candidates: count > 1 ? images : undefined,
+      };
+    } catch (error) {
+      logger.error('Failed to generate image with mock provider:', error);
+      if (error instanceof ProviderError) {
+        throw error;
+      }
+      throw new Error(`Image generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
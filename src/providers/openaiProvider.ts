@@ -0,0 +1,273 @@
+import {
+  GenerationControl,
+  ImageCandidate,
+  ImageProvider,
+  ImageGenerationOptions,
+  ImageGenerationResult,
+  ImageUsage,
+  InputImage,
+} from './imageProvider.js';
+import { logger } from '../utils/log.js';
+import { isCancelledError } from '../utils/abort.js';
+import { parseSize } from '../utils/files.js';
+import { applyNegativePrompt, applyStylePrompt } from './prompt.js';
+import {
+  ProviderAuthError,
+  UpstreamUnavailableError,
+  classifyHttpError,
+  classifyFetchError,
+  parseRetryAfter,
+} from './errors.js';
+
+interface OpenAIConfig {
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+}
+
+const DEFAULT_BASE_URL = 'https://api.openai.com';
+const SUPPORTED_SIZES = ['1024x1024', '1536x1024', '1024x1536'];
+
+/**
+ * OpenAI-compatible Images Provider
+ *
+ * Speaks the OpenAI Images API, which is also implemented by most
+ * self-hosted gateways (LocalAI, LiteLLM, vLLM-based servers, ...).
+ *
+ * API Documentation:
+ * - https://platform.openai.com/docs/api-reference/images
+ * - Endpoints: /v1/images/generations (JSON), /v1/images/edits (multipart)
+ * - Auth: Authorization: Bearer header (optional for local gateways)
+ */
+export class OpenAIProvider implements ImageProvider {
+  private config: OpenAIConfig;
+
+  constructor() {
+    this.config = {
+      apiKey: process.env.OPENAI_API_KEY || '',
+      baseUrl: (process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, ''),
+      model: process.env.OPENAI_IMAGE_MODEL || 'gpt-image-1',
+    };
+  }
+
+  getId(): string {
+    return 'openai';
+  }
+
+  getName(): string {
+    return 'OpenAI-compatible Images';
+  }
+
+  getModel(): string {
+    return this.config.model;
+  }
+
+  /**
+   * The hosted API needs a key; a custom base URL may point at a gateway without auth
+   */
+  isConfigured(): boolean {
+    return !!this.config.apiKey || (!!this.config.baseUrl && this.config.baseUrl !== DEFAULT_BASE_URL);
+  }
+
+  /**
+   * The Images API has no seed or temperature, and no negative prompt field,
+   * so negative_prompt is added to the prompt. Aspect ratios map to the
+   * nearest supported size; dall-e-3 only returns one image per request.
+   * Any input image makes the call an edit, so there are no reference images
+   */
+  getSupportedControls(): GenerationControl[] {
+    const controls: GenerationControl[] = ['negative_prompt', 'aspect_ratio'];
+    if (!this.config.model.startsWith('dall-e-3')) {
+      controls.push('candidate_count');
+    }
+    return controls;
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+    return headers;
+  }
+
+  /**
+   * gpt-image models always return base64 and reject response_format;
+   * DALL-E models and most gateways default to URLs unless asked otherwise
+   */
+  private wantsResponseFormat(): boolean {
+    return !this.config.model.startsWith('gpt-image');
+  }
+
+  /**
+   * Snap arbitrary dimensions (e.g. taken from an input screenshot) to the
+   * nearest size the Images API accepts, keeping the orientation
+   */
+  private toSupportedSize(size?: string): string {
+    if (!size || SUPPORTED_SIZES.includes(size)) {
+      return size || '1024x1024';
+    }
+    const { width, height } = parseSize(size);
+    const ratio = width / height;
+    if (ratio > 1.2) return '1536x1024';
+    if (ratio < 1 / 1.2) return '1024x1536';
+    return '1024x1024';
+  }
+
+  private buildPrompt(options: ImageGenerationOptions): string {
+    return applyNegativePrompt(applyStylePrompt(options.prompt, options.style), options.negativePrompt);
+  }
+
+  private candidateCount(options: ImageGenerationOptions): number {
+    return this.getSupportedControls().includes('candidate_count') ? options.candidateCount ?? 1 : 1;
+  }
+
+  /**
+   * Build the JSON body for /v1/images/generations
+   */
+  private buildGenerationBody(options: ImageGenerationOptions): any {
+    const body: Record<string, unknown> = {
+      model: this.config.model,
+      prompt: this.buildPrompt(options),
+      n: this.candidateCount(options),
+      size: this.toSupportedSize(options.size),
+    };
+
+    if (this.wantsResponseFormat()) {
+      body.response_format = 'b64_json';
+    } else {
+      if (options.background === 'transparent') {
+        body.background = 'transparent';
+      }
+      if (options.format === 'png' || options.format === 'webp' || options.format === 'jpeg') {
+        body.output_format = options.format;
+      }
+    }
+
+    return body;
+  }
+
+  /**
+   * Build the multipart body for /v1/images/edits
+   * Note: the OpenAI API expects the mask's transparent pixels to mark the
+   * area to edit; masks are passed through unchanged
+   */
+  private buildEditForm(options: ImageGenerationOptions, images: InputImage[]): FormData {
+    const form = new FormData();
+    form.append('model', this.config.model);
+    form.append('prompt', this.buildPrompt(options));
+    form.append('n', String(this.candidateCount(options)));
+    form.append('size', this.toSupportedSize(options.size));
+    if (this.wantsResponseFormat()) {
+      form.append('response_format', 'b64_json');
+    } else if (options.background === 'transparent') {
+      form.append('background', 'transparent');
+    }
+
+    const editable = images.filter((image) => image.role !== 'mask');
+    const mask = images.find((image) => image.role === 'mask');
+    const imageField = editable.length > 1 ? 'image[]' : 'image';
+
+    editable.forEach((image, index) => {
+      form.append(imageField, this.toBlob(image), `image_${index + 1}.${this.extensionFor(image.mimeType)}`);
+    });
+    if (mask) {
+      form.append('mask', this.toBlob(mask), `mask.${this.extensionFor(mask.mimeType)}`);
+    }
+
+    return form;
+  }
+
+  private toBlob(image: InputImage): Blob {
+    return new Blob([Buffer.from(image.data, 'base64')], { type: image.mimeType });
+  }
+
+  private extensionFor(mimeType: string): string {
+    return mimeType.split('/')[1] === 'jpeg' ? 'jpg' : mimeType.split('/')[1] || 'png';
+  }
+
+  /**
+   * Parse the response from the Images API
+   * Official format: data[].b64_json or data[].url, one entry per image
+   */
+  private parseResponse(response: any, size: string): ImageGenerationResult {
+    const { width, height } = parseSize(size);
+    const images: ImageCandidate[] = [];
+    for (const image of Array.isArray(response?.data) ? response.data : []) {
+      if (image?.b64_json) {
+        images.push({ data: image.b64_json, format: 'base64', width, height });
+      } else if (image?.url) {
+        images.push({ data: image.url, format: 'url', width, height });
+      }
+    }
+
+    if (images.length > 0) {
+      // gpt-image models report tokens; older models only the images
+      const usage: ImageUsage = {
+        inputTokens: typeof response?.usage?.input_tokens === 'number' ? response.usage.input_tokens : undefined,
+        outputTokens: typeof response?.usage?.output_tokens === 'number' ? response.usage.output_tokens : undefined,
+        images: images.length,
+      };
+      return { ...images[0], usage, candidates: images.length > 1 ? images : undefined };
+    }
+
+    logger.error('Unable to parse Images API response:', JSON.stringify(response, null, 2));
+    throw new UpstreamUnavailableError('Unable to parse image from Images API response. Expected format: data[].b64_json or data[].url');
+  }
+
+  async generateImage(options: ImageGenerationOptions): Promise<ImageGenerationResult> {
+    if (!this.isConfigured()) {
+      throw new ProviderAuthError('OpenAI provider not configured. Set OPENAI_API_KEY or OPENAI_BASE_URL in your .env file');
+    }
+
+    const images = options.inputImages || [];
+    const isEdit = images.length > 0;
+    const endpoint = `${this.config.baseUrl}/v1/images/${isEdit ? 'edits' : 'generations'}`;
+
+    logger.debug('Images API request:', { endpoint, model: this.config.model });
+
+    try {
+      const response = isEdit
+        ? await fetch(endpoint, {
+            method: 'POST',
+            headers: this.buildHeaders(),
+            body: this.buildEditForm(options, images),
+            signal: options.signal,
+          })
+        : await fetch(endpoint, {
+            method: 'POST',
+            headers: { ...this.buildHeaders(), 'Content-Type': 'application/json' },
+            body: JSON.stringify(this.buildGenerationBody(options)),
+            signal: options.signal,
+          });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        logger.error('Images API error:', errorText);
+        throw classifyHttpError(
+          response.status,
+          `Images API error: ${response.status} ${response.statusText}`,
+          parseRetryAfter(response.headers.get('retry-after'))
+        );
+      }
+
+      let data: any;
+      try {
+        data = await response.json();
+      } catch {
+        throw new UpstreamUnavailableError('Images API returned a response that is not valid JSON', response.status);
+      }
+      logger.debug('Images API response received');
+
+      return this.parseResponse(data, this.toSupportedSize(options.size));
+    } catch (error) {
+      const classified = classifyFetchError(error, undefined, options.signal);
+      if (isCancelledError(classified)) {
+        logger.info('Images API request cancelled');
+      } else {
+        logger.error('Failed to generate image with Images API:', error);
+      }
+      throw classified;
+    }
+  }
+}
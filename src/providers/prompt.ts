@@ -0,0 +1,38 @@
+import { applyPresetPrompt, getStylePreset } from '../utils/presets.js';
+
+/**
+ * Prompt helpers shared by image providers
+ */
+
+/**
+ * Apply the requested style preset to the prompt
+ * A style without a preset is used as a description as-is
+ */
+export function applyStylePrompt(prompt: string, style?: string): string {
+  if (!style) {
+    return prompt;
+  }
+  const preset = getStylePreset(style);
+  return preset ? applyPresetPrompt(prompt, preset) : `${style}, ${prompt}`;
+}
+
+/**
+ * Add negative guidance for models without a negative prompt field
+ */
+export function applyNegativePrompt(prompt: string, negativePrompt?: string): string {
+  if (!negativePrompt) {
+    return prompt;
+  }
+  return `${prompt.replace(/[.\s]+$/, '')}. Avoid: ${negativePrompt}`;
+}
+
+/**
+ * Ask for a flat chroma backdrop when a transparent background is wanted
+ * Models rarely return real alpha; the server keys this backdrop out afterwards
+ */
+export function applyBackgroundPrompt(prompt: string, background?: string): string {
+  if (background !== 'transparent') {
+    return prompt;
+  }
+  return `${prompt}. Place the subject on a perfectly flat, uniform pure green (#00FF00) background with no gradient, texture, shadow or reflection, and do not use that green anywhere in the subject.`;
+}
@@ -0,0 +1,77 @@
+import { ImageProvider } from './imageProvider.js';
+import { GeminiProvider } from './geminiProvider.js';
+import { OpenAIProvider } from './openaiProvider.js';
+import { MockProvider } from './mockProvider.js';
+import { ToolError } from '../utils/errors.js';
+
+export type ProviderFactory = () => ImageProvider;
+
+/**
+ * Registry of image providers, selected by id
+ *
+ * Providers are created lazily on first use so that an unused backend never
+ * has to be configured. The default comes from IMAGE_PROVIDER and can be
+ * overridden per tool call.
+ */
+export class ProviderRegistry {
+  private factories = new Map<string, ProviderFactory>();
+  private instances = new Map<string, ImageProvider>();
+  private defaultId: string;
+
+  constructor(defaultId: string = process.env.IMAGE_PROVIDER || 'gemini') {
+    this.defaultId = defaultId.toLowerCase();
+  }
+
+  /**
+   * Register a provider factory under an id
+   */
+  register(id: string, factory: ProviderFactory): this {
+    this.factories.set(id.toLowerCase(), factory);
+    this.instances.delete(id.toLowerCase());
+    return this;
+  }
+
+  /**
+   * List registered provider ids
+   */
+  list(): string[] {
+    return [...this.factories.keys()];
+  }
+
+  getDefaultId(): string {
+    return this.defaultId;
+  }
+
+  /**
+   * Get a provider by id, or the default provider when no id is given
+   */
+  get(id?: string): ImageProvider {
+    const key = (id || this.defaultId).toLowerCase();
+
+    let provider = this.instances.get(key);
+    if (provider) {
+      return provider;
+    }
+
+    const factory = this.factories.get(key);
+    if (!factory) {
+      throw new ToolError('invalid_arguments', `Unknown image provider: ${key}. Available providers: ${this.list().join(', ')}`, {
+        details: [{ field: 'provider', message: `Must be one of: ${this.list().join(', ')}`, issue: 'invalid_enum_value' }],
+      });
+    }
+
+    provider = factory();
+    this.instances.set(key, provider);
+    return provider;
+  }
+}
+
+/**
+ * Create a registry with the built-in providers
+ */
+export function createProviderRegistry(): ProviderRegistry {
+  return new ProviderRegistry()
+    .register('gemini', () => new GeminiProvider())
+    .register('openai', () => new OpenAIProvider())
+    .register('mock', () => new MockProvider());
+}
@@ -0,0 +1,66 @@
+import { ToolError } from './errors.js';
+
+/**
+ * Helpers for cancelling work when the client aborts a request
+ */
+
+/**
+ * The error thrown when a request is cancelled
+ */
+export function cancelledError(): ToolError {
+  return new ToolError('cancelled', 'Request was cancelled by the client');
+}
+
+export function isCancelledError(error: unknown): boolean {
+  return error instanceof ToolError && error.code === 'cancelled';
+}
+
+/**
+ * Throw the cancellation error if the signal has fired
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw cancelledError();
+  }
+}
+
+/**
+ * A signal that fires when any of the given signals fires
+ * (AbortSignal.any needs Node 20.3+)
+ */
+export function anySignal(signals: Array<AbortSignal | undefined>): AbortSignal {
+  const controller = new AbortController();
+
+  for (const signal of signals) {
+    if (!signal) continue;
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+  }
+
+  return controller.signal;
+}
+
+/**
+ * Wait for ms milliseconds, rejecting early with the cancellation error
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
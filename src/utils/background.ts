@@ -0,0 +1,182 @@
+import sharp from 'sharp';
+import { logger } from './log.js';
+
+/**
+ * Local background removal
+ *
+ * Image models can't be relied on to return real transparency, so we ask
+ * them for a flat backdrop and key it out here. Keying floods inwards from
+ * the image border: backdrop-colored areas inside the subject (eyes,
+ * highlights) stay opaque, and pixels whose color is between the backdrop
+ * and the subject get partial alpha for a feathered edge.
+ */
+
+export interface BackgroundRemovalOptions {
+  /** Backdrop color as #rrggbb; detected from the image border when omitted */
+  color?: string;
+  /** Color distance (0-255) up to which a pixel counts as pure backdrop */
+  tolerance?: number;
+  /** Extra color distance over which alpha ramps from 0 to 255 */
+  feather?: number;
+}
+
+type Rgb = [number, number, number];
+
+export const DEFAULT_KEY_TOLERANCE = 40;
+export const DEFAULT_KEY_FEATHER = 40;
+
+// Share of border pixels that must agree on a color to call it the backdrop
+const MIN_BACKDROP_SHARE = 0.4;
+
+/**
+ * Parse a #rrggbb (or rrggbb) color
+ */
+export function parseHexColor(value: string): Rgb | null {
+  const match = /^#?([0-9a-f]{6})$/i.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const hex = parseInt(match[1], 16);
+  return [(hex >> 16) & 0xff, (hex >> 8) & 0xff, hex & 0xff];
+}
+
+function toHexColor([r, g, b]: Rgb): string {
+  return `#${((r << 16) | (g << 8) | b).toString(16).padStart(6, '0')}`;
+}
+
+/**
+ * Find the most common color along the image border, or null when the
+ * border is too varied to be a flat backdrop
+ */
+function detectBackdropColor(data: Buffer, width: number, height: number): Rgb | null {
+  const buckets = new Map<number, { count: number; sum: Rgb }>();
+  let total = 0;
+
+  const sample = (x: number, y: number) => {
+    const offset = (y * width + x) * 4;
+    if (data[offset + 3] < 128) return;
+    const rgb: Rgb = [data[offset], data[offset + 1], data[offset + 2]];
+    // 5 bits per channel so JPEG noise lands in the same bucket
+    const key = ((rgb[0] >> 3) << 10) | ((rgb[1] >> 3) << 5) | (rgb[2] >> 3);
+    const bucket = buckets.get(key) || { count: 0, sum: [0, 0, 0] };
+    bucket.count++;
+    bucket.sum = [bucket.sum[0] + rgb[0], bucket.sum[1] + rgb[1], bucket.sum[2] + rgb[2]];
+    buckets.set(key, bucket);
+    total++;
+  };
+
+  for (let x = 0; x < width; x++) {
+    sample(x, 0);
+    sample(x, height - 1);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    sample(0, y);
+    sample(width - 1, y);
+  }
+
+  let best: { count: number; sum: Rgb } | undefined;
+  for (const bucket of buckets.values()) {
+    if (!best || bucket.count > best.count) best = bucket;
+  }
+
+  if (!best || best.count < total * MIN_BACKDROP_SHARE) {
+    return null;
+  }
+  return best.sum.map((channel) => Math.round(channel / best!.count)) as Rgb;
+}
+
+/**
+ * Key out the backdrop of an image and return an RGBA PNG
+ * Returns null when no color was given and no flat backdrop could be found
+ */
+export async function removeBackground(
+  buffer: Buffer,
+  options: BackgroundRemovalOptions = {}
+): Promise<{ data: Buffer; color: string } | null> {
+  const { data, info } = await sharp(buffer).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  const { width, height } = info;
+
+  const key = options.color ? parseHexColor(options.color) : detectBackdropColor(data, width, height);
+  if (!key) {
+    return null;
+  }
+
+  const tolerance = options.tolerance ?? DEFAULT_KEY_TOLERANCE;
+  const feather = Math.max(1, options.feather ?? DEFAULT_KEY_FEATHER);
+  const limit = tolerance + feather;
+
+  // Euclidean RGB distance scaled to 0-255
+  const distance = (offset: number) =>
+    Math.sqrt(
+      (data[offset] - key[0]) ** 2 + (data[offset + 1] - key[1]) ** 2 + (data[offset + 2] - key[2]) ** 2
+    ) / Math.sqrt(3);
+
+  const visited = new Uint8Array(width * height);
+  const queue = new Int32Array(width * height);
+  let head = 0;
+  let tail = 0;
+
+  const enqueue = (x: number, y: number) => {
+    const index = y * width + x;
+    if (visited[index]) return;
+    visited[index] = 1;
+    if (distance(index * 4) < limit) {
+      queue[tail++] = index;
+    }
+  };
+
+  for (let x = 0; x < width; x++) {
+    enqueue(x, 0);
+    enqueue(x, height - 1);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    enqueue(0, y);
+    enqueue(width - 1, y);
+  }
+
+  while (head < tail) {
+    const index = queue[head++];
+    const offset = index * 4;
+    const coverage = Math.min(1, Math.max(0, (distance(offset) - tolerance) / feather));
+
+    if (coverage > 0) {
+      // Unmix the backdrop from edge pixels so no colored fringe is left behind
+      for (let channel = 0; channel < 3; channel++) {
+        const unmixed = (data[offset + channel] - (1 - coverage) * key[channel]) / coverage;
+        data[offset + channel] = Math.min(255, Math.max(0, Math.round(unmixed)));
+      }
+    }
+    data[offset + 3] = Math.round(data[offset + 3] * coverage);
+
+    const x = index % width;
+    const y = (index - x) / width;
+    if (x > 0) enqueue(x - 1, y);
+    if (x < width - 1) enqueue(x + 1, y);
+    if (y > 0) enqueue(x, y - 1);
+    if (y < height - 1) enqueue(x, y + 1);
+  }
+
+  const png = await sharp(data, { raw: { width, height, channels: 4 } }).png().toBuffer();
+  return { data: png, color: toHexColor(key) };
+}
+
+/**
+ * Make sure an image that should have a transparent background has one
+ * Images that already carry transparency are returned unchanged; if no flat
+ * backdrop is found the image is kept opaque rather than guessed at.
+ */
+export async function ensureTransparentBackground(buffer: Buffer): Promise<Buffer> {
+  const { isOpaque } = await sharp(buffer).stats();
+  if (!isOpaque) {
+    return buffer;
+  }
+
+  const keyed = await removeBackground(buffer);
+  if (!keyed) {
+    logger.warn('No flat backdrop found to remove; keeping the image opaque');
+    return buffer;
+  }
+
+  logger.debug('Removed backdrop:', { color: keyed.color });
+  return keyed.data;
+}
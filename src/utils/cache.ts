@@ -0,0 +1,165 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import type { ImageGenerationOptions } from '../providers/imageProvider.js';
+import { applyStylePrompt } from '../providers/prompt.js';
+import { resolveProjectPath } from './paths.js';
+import { logger } from './log.js';
+
+/**
+ * On-disk cache of provider images
+ *
+ * Agents often repeat the exact same generation call during retries and
+ * re-plans. Entries are keyed by a hash of the provider, model, normalized
+ * prompt with its style preset applied and every option sent to the provider, and hold the image as the
+ * provider returned it; fitting and encoding still run per call. Entries
+ * expire after a TTL, and the least recently used ones are evicted once the
+ * cache grows past its size limit.
+ */
+
+export type CacheMode = 'use' | 'refresh' | 'bypass';
+
+/** hit: served from cache; miss: generated and stored; refresh: regenerated and stored; bypass: cache not used */
+export type CacheStatus = 'hit' | 'miss' | 'refresh' | 'bypass';
+
+export interface GenerationCacheConfig {
+  dir: string;
+  /** How long an entry can be reused */
+  ttlMs: number;
+  /** Total size the cache is pruned back to; 0 disables caching */
+  maxBytes: number;
+}
+
+const ENTRY_EXTENSION = '.bin';
+
+/**
+ * Read cache settings from the environment
+ */
+export function loadGenerationCacheConfig(): GenerationCacheConfig {
+  return {
+    dir: resolveProjectPath(process.env.CACHE_DIR || './.cache'),
+    ttlMs: Math.max(0, parseInt(process.env.CACHE_TTL_MS || '604800000', 10) || 604800000),
+    maxBytes: Math.max(0, parseInt(process.env.CACHE_MAX_BYTES || '524288000', 10) || 0),
+  };
+}
+
+/**
+ * Collapse whitespace so trivially different prompts share an entry
+ */
+export function normalizePrompt(prompt: string): string {
+  return prompt.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Cache key for a generation request
+ * The style preset's text is part of the prompt, so editing a preset in
+ * STYLES_FILE changes the key. Input images are represented by a hash of their bytes
+ */
+export function generationCacheKey(providerId: string, model: string, options: ImageGenerationOptions): string {
+  const { signal: _signal, inputImages, prompt, ...rest } = options;
+  const request = {
+    provider: providerId,
+    model,
+    prompt: normalizePrompt(applyStylePrompt(prompt, rest.style)),
+    // Sorted so the key doesn't depend on property order
+    options: Object.fromEntries(
+      Object.entries(rest)
+        .filter(([, value]) => value !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+    ),
+    inputImages: inputImages?.map((image) => ({
+      sha256: crypto.createHash('sha256').update(image.data).digest('hex'),
+      mimeType: image.mimeType,
+      role: image.role || 'source',
+    })),
+  };
+  return crypto.createHash('sha256').update(JSON.stringify(request)).digest('hex');
+}
+
+export class GenerationCache {
+  constructor(private config: GenerationCacheConfig) {}
+
+  get enabled(): boolean {
+    return this.config.maxBytes > 0 && this.config.ttlMs > 0;
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.config.dir, `${key}${ENTRY_EXTENSION}`);
+  }
+
+  /**
+   * Cached image for a key, or null when missing or expired
+   */
+  async get(key: string): Promise<Buffer | null> {
+    if (!this.enabled) {
+      return null;
+    }
+
+    const entryPath = this.entryPath(key);
+    try {
+      const stats = await fs.stat(entryPath);
+      if (Date.now() - stats.mtimeMs > this.config.ttlMs) {
+        await fs.rm(entryPath, { force: true });
+        return null;
+      }
+
+      const data = await fs.readFile(entryPath);
+      // The access time orders eviction; the modified time keeps the TTL
+      await fs.utimes(entryPath, new Date(), stats.mtime);
+      return data;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Store an image, then prune the cache back under its limits
+   * Failures are logged and otherwise ignored; the cache is an optimization
+   */
+  async set(key: string, data: Buffer): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    try {
+      await fs.mkdir(this.config.dir, { recursive: true });
+      // Write then rename, so concurrent readers never see a partial entry
+      const tempPath = `${this.entryPath(key)}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+      await fs.writeFile(tempPath, data);
+      await fs.rename(tempPath, this.entryPath(key));
+      await this.prune();
+    } catch (error) {
+      logger.warn('Failed to write generation cache entry:', error);
+    }
+  }
+
+  /**
+   * Remove expired entries, then the least recently used until under maxBytes
+   */
+  private async prune(): Promise<void> {
+    const now = Date.now();
+    const entries: Array<{ path: string; size: number; accessed: number }> = [];
+
+    for (const name of await fs.readdir(this.config.dir)) {
+      if (!name.endsWith(ENTRY_EXTENSION)) continue;
+      const entryPath = path.join(this.config.dir, name);
+      const stats = await fs.stat(entryPath).catch(() => null);
+      if (!stats) continue;
+
+      if (now - stats.mtimeMs > this.config.ttlMs) {
+        await fs.rm(entryPath, { force: true });
+      } else {
+        entries.push({ path: entryPath, size: stats.size, accessed: Math.max(stats.atimeMs, stats.mtimeMs) });
+      }
+    }
+
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    entries.sort((a, b) => a.accessed - b.accessed);
+    for (const entry of entries) {
+      if (total <= this.config.maxBytes) break;
+      await fs.rm(entry.path, { force: true });
+      total -= entry.size;
+      logger.debug('Evicted generation cache entry:', path.basename(entry.path));
+    }
+  }
+}
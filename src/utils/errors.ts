@@ -0,0 +1,35 @@
+/**
+ * Errors raised by tool handlers and utilities, with a stable machine-readable code
+ */
+
+export type ToolErrorCode =
+  | 'invalid_arguments'
+  | 'invalid_path'
+  | 'not_found'
+  | 'unsupported_format'
+  | 'unknown_tool'
+  | 'rate_limited'
+  | 'queue_full'
+  | 'budget_exceeded'
+  | 'unpriced_model'
+  | 'cancelled';
+
+export class ToolError extends Error {
+  readonly code: ToolErrorCode;
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number;
+  readonly details?: unknown;
+
+  constructor(
+    code: ToolErrorCode,
+    message: string,
+    options: { retryable?: boolean; retryAfterMs?: number; details?: unknown } = {}
+  ) {
+    super(message);
+    this.name = 'ToolError';
+    this.code = code;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+    this.details = options.details;
+  }
+}
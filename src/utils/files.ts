@@ -3,17 +3,21 @@ import path from 'path';
 import crypto from 'crypto';
 import { safeJoinOutputs, getOutputsDir } from './paths.js';
 import { logger } from './log.js';
+import { encodeImage, sniffImageFormat } from './image.js';
+import { ToolError } from './errors.js';
+import { throwIfAborted } from './abort.js';
+import { sidecarPath } from './metadata.js';
 
 /**
  * Generate a unique filename with timestamp and hash
  */
 export function generateFilename(
   toolName: string,
-  extension: string
+  extension?: string
 ): string {
   const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
   const hash = crypto.randomBytes(4).toString('hex');
-  return `${toolName}_${timestamp}_${hash}.${extension}`;
+  return extension ? `${toolName}_${timestamp}_${hash}.${extension}` : `${toolName}_${timestamp}_${hash}`;
 }
 
 /**
@@ -29,6 +33,64 @@ export async function ensureOutputsDir(): Promise<void> {
   }
 }
 
+export interface OutputFileInfo {
+  filename: string;
+  path: string;
+  size: number;
+  modified: Date;
+}
+
+type OutputsChangedListener = (filePath: string) => void;
+
+const outputsChangedListeners = new Set<OutputsChangedListener>();
+
+/**
+ * Subscribe to files being written, renamed or deleted in the outputs directory
+ * Returns a function that removes the listener
+ */
+export function onOutputsChanged(listener: OutputsChangedListener): () => void {
+  outputsChangedListeners.add(listener);
+  return () => {
+    outputsChangedListeners.delete(listener);
+  };
+}
+
+function notifyOutputsChanged(filePath: string): void {
+  for (const listener of outputsChangedListeners) {
+    try {
+      listener(filePath);
+    } catch (error) {
+      logger.warn('Output listener failed:', error);
+    }
+  }
+}
+
+/**
+ * List files in the outputs directory, newest first
+ * Hidden files such as .gitkeep are skipped
+ */
+export async function listOutputFiles(): Promise<OutputFileInfo[]> {
+  await ensureOutputsDir();
+
+  const entries = await fs.readdir(getOutputsDir(), { withFileTypes: true });
+  const files: OutputFileInfo[] = [];
+
+  for (const entry of entries) {
+    if (!entry.isFile() || entry.name.startsWith('.')) {
+      continue;
+    }
+    const filePath = safeJoinOutputs(entry.name);
+    try {
+      const stat = await fs.stat(filePath);
+      files.push({ filename: entry.name, path: filePath, size: stat.size, modified: stat.mtime });
+    } catch {
+      // Removed between readdir and stat
+    }
+  }
+
+  return files.sort((a, b) => b.modified.getTime() - a.modified.getTime());
+}
+
 /**
  * Write base64 image data to file
  */
@@ -38,14 +100,13 @@ export async function writeBase64Image(
 ): Promise<string> {
   await ensureOutputsDir();
 
-  // Remove data URL prefix if present
-  const base64Clean = base64Data.replace(/^data:image\/\w+;base64,/, '');
-
-  const buffer = Buffer.from(base64Clean, 'base64');
+  const buffer = decodeBase64Image(base64Data);
   const filePath = safeJoinOutputs(filename);
 
   await fs.writeFile(filePath, buffer);
   logger.info('Wrote image to:', filePath);
+  notifyOutputsChanged(filePath);
+  await pruneOutputs(loadRetentionPolicy(), [filePath]);
 
   return filePath;
 }
@@ -62,26 +123,108 @@ export async function writeImageBuffer(
   const filePath = safeJoinOutputs(filename);
   await fs.writeFile(filePath, buffer);
   logger.info('Wrote image to:', filePath);
+  notifyOutputsChanged(filePath);
+  await pruneOutputs(loadRetentionPolicy(), [filePath]);
 
   return filePath;
 }
 
+/**
+ * Write a set of files into a new subdirectory of outputs/
+ * Entry paths may contain subfolders but must stay inside the directory
+ */
+export async function writeOutputDirectory(
+  dirName: string,
+  files: Array<{ path: string; data: Buffer }>
+): Promise<string> {
+  await ensureOutputsDir();
+
+  const dirPath = safeJoinOutputs(dirName);
+  for (const file of files) {
+    const filePath = path.resolve(dirPath, file.path);
+    if (!filePath.startsWith(dirPath + path.sep)) {
+      throw new ToolError('invalid_path', `Invalid file path in output directory: ${file.path}`);
+    }
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, file.data);
+  }
+
+  logger.info(`Wrote ${files.length} files to:`, dirPath);
+  notifyOutputsChanged(dirPath);
+  await pruneOutputs(loadRetentionPolicy(), [dirPath]);
+
+  return dirPath;
+}
+
+/**
+ * Decode base64 image data, with or without a data URL prefix
+ */
+export function decodeBase64Image(base64Data: string): Buffer {
+  // Remove data URL prefix if present
+  const base64Clean = base64Data.replace(/^data:image\/[\w+.-]+;base64,/, '');
+  return Buffer.from(base64Clean, 'base64');
+}
+
+/**
+ * Fetch image bytes from a URL
+ */
+export async function fetchImageBuffer(url: string, signal?: AbortSignal): Promise<Buffer> {
+  try {
+    const response = await fetch(url, { signal });
+    if (!response.ok) {
+      throw new Error(`Failed to download image: ${response.statusText}`);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  } catch (error) {
+    throwIfAborted(signal);
+    throw error;
+  }
+}
+
 /**
  * Download image from URL and save to file
  */
 export async function downloadImage(
   url: string,
-  filename: string
+  filename: string,
+  signal?: AbortSignal
 ): Promise<string> {
   await ensureOutputsDir();
 
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`Failed to download image: ${response.statusText}`);
+  const buffer = await fetchImageBuffer(url, signal);
+  throwIfAborted(signal);
+  return writeImageBuffer(buffer, filename);
+}
+
+/**
+ * Read an image file as base64 for sending to a provider
+ */
+export async function readImageAsBase64(
+  filePath: string
+): Promise<{ data: string; mimeType: string }> {
+  let buffer: Buffer;
+  try {
+    buffer = await fs.readFile(filePath);
+  } catch {
+    throw new ToolError('not_found', `Input image not found: ${path.basename(filePath)}`);
+  }
+
+  const format = sniffImageFormat(buffer);
+  if (!format) {
+    throw new ToolError('unsupported_format', `Unsupported input image format: ${path.basename(filePath)} (expected PNG, JPEG, WebP, AVIF or GIF)`);
   }
 
-  const buffer = Buffer.from(await response.arrayBuffer());
-  return writeImageBuffer(buffer, filename);
+  // Providers reliably accept PNG, JPEG and WebP; convert anything else to PNG
+  if (format === 'avif' || format === 'gif') {
+    buffer = await encodeImage(buffer, 'png');
+    return { data: buffer.toString('base64'), mimeType: 'image/png' };
+  }
+
+  return {
+    data: buffer.toString('base64'),
+    mimeType: getMimeType(format),
+  };
 }
 
 /**
@@ -93,6 +236,11 @@ export function getMimeType(extension: string): string {
     webp: 'image/webp',
     jpg: 'image/jpeg',
     jpeg: 'image/jpeg',
+    avif: 'image/avif',
+    gif: 'image/gif',
+    svg: 'image/svg+xml',
+    json: 'application/json',
+    zip: 'application/zip',
   };
 
   return mimeTypes[extension.toLowerCase()] || 'application/octet-stream';
@@ -105,3 +253,154 @@ export function parseSize(size: string): { width: number; height: number } {
   const [width, height] = size.split('x').map(Number);
   return { width, height };
 }
+
+/**
+ * Size of about a megapixel with the given W:H aspect ratio, in multiples of 16
+ */
+export function sizeForAspectRatio(aspectRatio: string): string {
+  const [ratioWidth, ratioHeight] = aspectRatio.split(':').map(Number);
+  const height = Math.sqrt((1024 * 1024 * ratioHeight) / ratioWidth);
+  const round = (value: number) => Math.max(16, Math.round(value / 16) * 16);
+  return `${round((height * ratioWidth) / ratioHeight)}x${round(height)}`;
+}
+
+/**
+ * Existing top-level entry of the outputs directory, or not_found
+ */
+async function statOutput(filename: string): Promise<{ path: string; isDirectory: boolean }> {
+  const filePath = safeJoinOutputs(filename);
+  try {
+    const stat = await fs.stat(filePath);
+    return { path: filePath, isDirectory: stat.isDirectory() };
+  } catch {
+    throw new ToolError('not_found', `Output not found: ${filename}`);
+  }
+}
+
+/**
+ * Delete a file (with its metadata sidecar) or an exported folder from outputs/
+ */
+export async function deleteOutput(filename: string): Promise<string> {
+  const { path: filePath } = await statOutput(filename);
+
+  await fs.rm(filePath, { recursive: true, force: true });
+  await fs.rm(sidecarPath(filePath), { force: true });
+  logger.info('Deleted output:', filePath);
+  notifyOutputsChanged(filePath);
+
+  return filePath;
+}
+
+/**
+ * Rename an output, keeping its extension so the MIME type stays truthful
+ */
+export async function renameOutput(filename: string, newName: string): Promise<string> {
+  if (!newName || newName !== path.basename(newName) || newName.startsWith('.')) {
+    throw new ToolError('invalid_path', `New name must be a plain filename: ${newName}`);
+  }
+
+  const { path: fromPath, isDirectory } = await statOutput(filename);
+  const toPath = safeJoinOutputs(newName);
+
+  if (!isDirectory && path.extname(newName).toLowerCase() !== path.extname(filename).toLowerCase()) {
+    throw new ToolError('invalid_arguments', `New name must keep the ${path.extname(filename) || 'missing'} extension`, {
+      details: [{ field: 'new_name', message: `Use a ${path.extname(filename)} filename`, issue: 'custom' }],
+    });
+  }
+
+  const taken = await fs.access(toPath).then(() => true, () => false);
+  if (taken) {
+    throw new ToolError('invalid_arguments', `An output named ${newName} already exists`, {
+      details: [{ field: 'new_name', message: 'Choose a name that is not taken', issue: 'custom' }],
+    });
+  }
+
+  await fs.rename(fromPath, toPath);
+  await fs.rename(sidecarPath(fromPath), sidecarPath(toPath)).catch(() => undefined);
+  logger.info('Renamed output:', { from: fromPath, to: toPath });
+  notifyOutputsChanged(toPath);
+
+  return toPath;
+}
+
+export interface RetentionPolicy {
+  /** Total size of outputs/ to prune back to; 0 means no limit */
+  maxBytes: number;
+  /** Age after which outputs are deleted; 0 means keep forever */
+  maxAgeMs: number;
+}
+
+/**
+ * Read the outputs retention policy from the environment
+ */
+export function loadRetentionPolicy(): RetentionPolicy {
+  return {
+    maxBytes: Math.max(0, parseInt(process.env.OUTPUT_MAX_BYTES || '0', 10) || 0),
+    maxAgeMs: Math.max(0, parseInt(process.env.OUTPUT_MAX_AGE_MS || '0', 10) || 0),
+  };
+}
+
+async function entrySize(entryPath: string): Promise<number> {
+  const stat = await fs.stat(entryPath);
+  if (!stat.isDirectory()) {
+    return stat.size;
+  }
+
+  let total = 0;
+  for (const name of await fs.readdir(entryPath)) {
+    total += await entrySize(path.join(entryPath, name));
+  }
+  return total;
+}
+
+/**
+ * Delete outputs past the maximum age, then the oldest until under the size limit
+ *
+ * Runs on startup and after every write. Entries in `keep` (the file just
+ * written) are never deleted, and hidden files such as .gitkeep are skipped.
+ */
+export async function pruneOutputs(policy: RetentionPolicy, keep: string[] = []): Promise<number> {
+  if (!policy.maxBytes && !policy.maxAgeMs) {
+    return 0;
+  }
+
+  await ensureOutputsDir();
+  const names = new Set((await fs.readdir(getOutputsDir())).filter((name) => !name.startsWith('.')));
+  const entries: Array<{ path: string; size: number; modified: number }> = [];
+  for (const name of names) {
+    // Metadata sidecars go together with their image
+    if (name.endsWith('.json') && names.has(name.slice(0, -'.json'.length))) continue;
+    const entryPath = safeJoinOutputs(name);
+    try {
+      const stat = await fs.stat(entryPath);
+      const sidecarSize = await fs.stat(sidecarPath(entryPath)).then((sidecar) => sidecar.size, () => 0);
+      entries.push({ path: entryPath, size: (await entrySize(entryPath)) + sidecarSize, modified: stat.mtimeMs });
+    } catch {
+      // Removed while we were looking
+    }
+  }
+
+  // Oldest first
+  entries.sort((a, b) => a.modified - b.modified);
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  const cutoff = Date.now() - policy.maxAgeMs;
+  let deleted = 0;
+
+  for (const entry of entries) {
+    const expired = policy.maxAgeMs > 0 && entry.modified < cutoff;
+    const overBudget = policy.maxBytes > 0 && total > policy.maxBytes;
+    if (!expired && !overBudget) break;
+    if (keep.includes(entry.path)) continue;
+
+    await fs.rm(entry.path, { recursive: true, force: true });
+    await fs.rm(sidecarPath(entry.path), { force: true });
+    total -= entry.size;
+    deleted++;
+  }
+
+  if (deleted > 0) {
+    logger.info(`Retention policy deleted ${deleted} output(s)`, { remaining_bytes: total });
+    notifyOutputsChanged(getOutputsDir());
+  }
+  return deleted;
+}
@@ -0,0 +1,153 @@
+import sharp from 'sharp';
+import { parseHexColor } from './background.js';
+
+/**
+ * App icon set export
+ *
+ * Turns one square master icon into the files a web or mobile app ships:
+ * multi-resolution favicon.ico, apple-touch-icon, Android adaptive icon
+ * layers, and PWA manifest icons including maskable variants. Opaque
+ * variants are placed on a solid background color.
+ */
+
+export interface IconSetFile {
+  /** Relative path inside the set, with forward slashes */
+  path: string;
+  data: Buffer;
+}
+
+export interface IconSet {
+  files: IconSetFile[];
+  manifest: { icons: Array<{ src: string; sizes: string; type: string; purpose?: string }>; background_color: string };
+  html: string;
+}
+
+const FAVICON_SIZES = [16, 32, 48];
+const PWA_SIZES = [192, 512];
+
+// Share of the canvas the artwork may use
+const APPLE_TOUCH_SCALE = 0.8;
+// Maskable icons keep content inside a centered circle of 80% diameter
+const MASKABLE_SCALE = 0.7;
+// Android adaptive layers are 108dp with a 66dp safe zone
+const ANDROID_LAYER_SIZE = 432;
+const ANDROID_SAFE_SCALE = 66 / 108;
+
+const ANDROID_ADAPTIVE_XML = `<?xml version="1.0" encoding="utf-8"?>
+<adaptive-icon xmlns:android="http://schemas.android.com/apk/res/android">
+    <background android:drawable="@mipmap/ic_launcher_background"/>
+    <foreground android:drawable="@mipmap/ic_launcher_foreground"/>
+</adaptive-icon>
+`;
+
+/**
+ * Pack PNG images into a .ico file (PNG-compressed entries, Vista and later)
+ */
+export function encodeIco(images: Array<{ size: number; data: Buffer }>): Buffer {
+  const header = Buffer.alloc(6);
+  header.writeUInt16LE(0, 0);
+  header.writeUInt16LE(1, 2); // type: icon
+  header.writeUInt16LE(images.length, 4);
+
+  const entries: Buffer[] = [];
+  let offset = header.length + images.length * 16;
+
+  for (const image of images) {
+    const entry = Buffer.alloc(16);
+    entry.writeUInt8(image.size >= 256 ? 0 : image.size, 0);
+    entry.writeUInt8(image.size >= 256 ? 0 : image.size, 1);
+    entry.writeUInt16LE(1, 4); // color planes
+    entry.writeUInt16LE(32, 6); // bits per pixel
+    entry.writeUInt32LE(image.data.length, 8);
+    entry.writeUInt32LE(offset, 12);
+    entries.push(entry);
+    offset += image.data.length;
+  }
+
+  return Buffer.concat([header, ...entries, ...images.map((image) => image.data)]);
+}
+
+/**
+ * Render the master centered on a square canvas
+ * The artwork takes `scale` of the canvas; the rest is background (transparent by default)
+ */
+async function renderIcon(master: Buffer, size: number, scale = 1, background?: string): Promise<Buffer> {
+  const inner = Math.round(size * scale);
+  const layers: sharp.OverlayOptions[] = [];
+  if (inner > 0) {
+    const artwork = await sharp(master)
+      .resize({ width: inner, height: inner, fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } })
+      .png()
+      .toBuffer();
+    layers.push({ input: artwork, gravity: 'centre' });
+  }
+
+  const rgb = background ? parseHexColor(background) : null;
+  return sharp({
+    create: {
+      width: size,
+      height: size,
+      channels: 4,
+      background: rgb ? { r: rgb[0], g: rgb[1], b: rgb[2], alpha: 1 } : { r: 0, g: 0, b: 0, alpha: 0 },
+    },
+  })
+    .composite(layers)
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Build every icon file plus the manifest snippet and HTML link tags
+ */
+export async function buildIconSet(master: Buffer, options: { backgroundColor: string }): Promise<IconSet> {
+  const files: IconSetFile[] = [];
+  const background = options.backgroundColor.startsWith('#') ? options.backgroundColor : `#${options.backgroundColor}`;
+
+  // Favicons
+  const favicons = await Promise.all(
+    FAVICON_SIZES.map(async (size) => ({ size, data: await renderIcon(master, size) }))
+  );
+  files.push({ path: 'favicon.ico', data: encodeIco(favicons) });
+  for (const favicon of favicons.filter((icon) => icon.size !== 48)) {
+    files.push({ path: `favicon-${favicon.size}x${favicon.size}.png`, data: favicon.data });
+  }
+
+  // iOS fills transparency with black, so the touch icon is opaque
+  files.push({ path: 'apple-touch-icon.png', data: await renderIcon(master, 180, APPLE_TOUCH_SCALE, background) });
+
+  // PWA icons, plain and maskable
+  const manifestIcons: IconSet['manifest']['icons'] = [];
+  for (const size of PWA_SIZES) {
+    files.push({ path: `icon-${size}.png`, data: await renderIcon(master, size) });
+    manifestIcons.push({ src: `/icon-${size}.png`, sizes: `${size}x${size}`, type: 'image/png' });
+  }
+  for (const size of PWA_SIZES) {
+    files.push({ path: `icon-maskable-${size}.png`, data: await renderIcon(master, size, MASKABLE_SCALE, background) });
+    manifestIcons.push({ src: `/icon-maskable-${size}.png`, sizes: `${size}x${size}`, type: 'image/png', purpose: 'maskable' });
+  }
+
+  // Android adaptive icon layers (xxxhdpi)
+  files.push({
+    path: 'android/mipmap-xxxhdpi/ic_launcher_foreground.png',
+    data: await renderIcon(master, ANDROID_LAYER_SIZE, ANDROID_SAFE_SCALE),
+  });
+  files.push({
+    path: 'android/mipmap-xxxhdpi/ic_launcher_background.png',
+    data: await renderIcon(master, ANDROID_LAYER_SIZE, 0, background),
+  });
+  files.push({ path: 'android/mipmap-anydpi-v26/ic_launcher.xml', data: Buffer.from(ANDROID_ADAPTIVE_XML) });
+
+  const manifest = { icons: manifestIcons, background_color: background };
+  const html = [
+    '<link rel="icon" href="/favicon.ico" sizes="any">',
+    '<link rel="icon" type="image/png" sizes="32x32" href="/favicon-32x32.png">',
+    '<link rel="icon" type="image/png" sizes="16x16" href="/favicon-16x16.png">',
+    '<link rel="apple-touch-icon" href="/apple-touch-icon.png">',
+    '<link rel="manifest" href="/manifest.webmanifest">',
+  ].join('\n');
+
+  files.push({ path: 'manifest.webmanifest', data: Buffer.from(JSON.stringify(manifest, null, 2) + '\n') });
+  files.push({ path: 'icons.html', data: Buffer.from(html + '\n') });
+
+  return { files, manifest, html };
+}
@@ -0,0 +1,264 @@
+import sharp from 'sharp';
+
+/**
+ * Image inspection and preview helpers
+ */
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp' | 'avif' | 'gif';
+
+export type OutputFormat = 'png' | 'webp' | 'jpeg' | 'avif';
+
+/** How to reach an exact size: crop to fill, pad to fit, or stretch */
+export type FitMode = 'cover' | 'contain' | 'fill';
+
+/**
+ * Detect the image format from its magic bytes
+ */
+export function sniffImageFormat(buffer: Buffer): ImageFormat | null {
+  if (
+    buffer.length >= 8 &&
+    buffer.readUInt32BE(0) === 0x89504e47 &&
+    buffer.readUInt32BE(4) === 0x0d0a1a0a
+  ) {
+    return 'png';
+  }
+
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'jpeg';
+  }
+
+  if (
+    buffer.length >= 12 &&
+    buffer.toString('ascii', 0, 4) === 'RIFF' &&
+    buffer.toString('ascii', 8, 12) === 'WEBP'
+  ) {
+    return 'webp';
+  }
+
+  // ISO-BMFF 'ftyp' box with an AVIF major brand
+  if (buffer.length >= 12 && buffer.toString('ascii', 4, 8) === 'ftyp') {
+    const brand = buffer.toString('ascii', 8, 12);
+    if (brand === 'avif' || brand === 'avis') {
+      return 'avif';
+    }
+  }
+
+  if (buffer.length >= 6 && buffer.toString('ascii', 0, 4) === 'GIF8') {
+    return 'gif';
+  }
+
+  return null;
+}
+
+/**
+ * File extension for an output format
+ */
+export function formatExtension(format: OutputFormat): string {
+  return format === 'jpeg' ? 'jpg' : format;
+}
+
+/**
+ * Encode image bytes in the requested output format
+ *
+ * Bytes already in the target format are kept as-is unless a quality is
+ * given, to avoid a needless lossy round trip. JPEG has no alpha channel,
+ * so transparent areas are flattened onto white.
+ */
+export async function encodeImage(
+  buffer: Buffer,
+  format: OutputFormat,
+  quality?: number
+): Promise<Buffer> {
+  if (sniffImageFormat(buffer) === format && quality === undefined) {
+    return buffer;
+  }
+
+  const image = sharp(buffer);
+  switch (format) {
+    case 'png':
+      return image.png().toBuffer();
+    case 'webp':
+      return image.webp({ quality: quality ?? 90 }).toBuffer();
+    case 'jpeg':
+      return image.flatten({ background: '#ffffff' }).jpeg({ quality: quality ?? 90, mozjpeg: true }).toBuffer();
+    case 'avif':
+      return image.avif({ quality: quality ?? 60 }).toBuffer();
+  }
+}
+
+/**
+ * Read width and height from a PNG, JPEG or WebP header
+ */
+export function readImageDimensions(buffer: Buffer): { width: number; height: number } | null {
+  switch (sniffImageFormat(buffer)) {
+    case 'png':
+      if (buffer.length < 24) return null;
+      return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+    case 'jpeg':
+      return readJpegDimensions(buffer);
+    case 'webp':
+      return readWebpDimensions(buffer);
+    default:
+      return null;
+  }
+}
+
+function readJpegDimensions(buffer: Buffer): { width: number; height: number } | null {
+  let offset = 2;
+
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) return null;
+
+    const marker = buffer[offset + 1];
+    const length = buffer.readUInt16BE(offset + 2);
+
+    // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return {
+        height: buffer.readUInt16BE(offset + 5),
+        width: buffer.readUInt16BE(offset + 7),
+      };
+    }
+
+    offset += 2 + length;
+  }
+
+  return null;
+}
+
+function readWebpDimensions(buffer: Buffer): { width: number; height: number } | null {
+  if (buffer.length < 30) return null;
+
+  const chunk = buffer.toString('ascii', 12, 16);
+
+  if (chunk === 'VP8 ') {
+    return {
+      width: buffer.readUInt16LE(26) & 0x3fff,
+      height: buffer.readUInt16LE(28) & 0x3fff,
+    };
+  }
+
+  if (chunk === 'VP8L') {
+    const bits = buffer.readUInt32LE(21);
+    return {
+      width: (bits & 0x3fff) + 1,
+      height: ((bits >> 14) & 0x3fff) + 1,
+    };
+  }
+
+  if (chunk === 'VP8X') {
+    return {
+      width: buffer.readUIntLE(24, 3) + 1,
+      height: buffer.readUIntLE(27, 3) + 1,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Read the true width and height of any supported image
+ * Uses the header parser where it can and falls back to sharp (AVIF, GIF)
+ */
+export async function measureImage(buffer: Buffer): Promise<{ width: number; height: number } | null> {
+  const dimensions = readImageDimensions(buffer);
+  if (dimensions) {
+    return dimensions;
+  }
+
+  try {
+    const { width, height } = await sharp(buffer).metadata();
+    return width && height ? { width, height } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resize an image to exactly width x height
+ *
+ * cover center-crops, fill stretches, and contain letterboxes the image:
+ * with transparent padding when asked for, otherwise padded with the image's
+ * dominant color so the bars blend in. Returns lossless PNG bytes for the
+ * encoder to take from there.
+ */
+export async function fitImage(
+  buffer: Buffer,
+  width: number,
+  height: number,
+  options: { fit: FitMode; transparent?: boolean }
+): Promise<Buffer> {
+  let background: sharp.Color = { r: 0, g: 0, b: 0, alpha: 0 };
+  if (options.fit === 'contain' && !options.transparent) {
+    const { dominant } = await sharp(buffer).stats();
+    background = { ...dominant, alpha: 1 };
+  }
+
+  return sharp(buffer)
+    .resize({ width, height, fit: options.fit, position: 'centre', background })
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Tile images into a single PNG grid, in order
+ * Missing images (failed generations) leave a gray placeholder cell
+ */
+export async function createContactSheet(
+  images: Array<Buffer | null>,
+  options: { cellSize?: number; gap?: number } = {}
+): Promise<{ data: Buffer; width: number; height: number }> {
+  const cellSize = options.cellSize ?? 256;
+  const gap = options.gap ?? 8;
+  const columns = Math.ceil(Math.sqrt(images.length));
+  const rows = Math.ceil(images.length / columns);
+  const width = columns * cellSize + (columns + 1) * gap;
+  const height = rows * cellSize + (rows + 1) * gap;
+
+  const tiles = await Promise.all(
+    images.map(async (image, index) => {
+      const tile = image
+        ? await sharp(image)
+          .resize({ width: cellSize, height: cellSize, fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } })
+          .png()
+          .toBuffer()
+        : await sharp({ create: { width: cellSize, height: cellSize, channels: 4, background: '#d4d4d8' } })
+          .png()
+          .toBuffer();
+      return {
+        input: tile,
+        left: gap + (index % columns) * (cellSize + gap),
+        top: gap + Math.floor(index / columns) * (cellSize + gap),
+      };
+    })
+  );
+
+  const data = await sharp({ create: { width, height, channels: 4, background: '#f4f4f5' } })
+    .composite(tiles)
+    .png()
+    .toBuffer();
+  return { data, width, height };
+}
+
+/**
+ * Encode a downscaled WebP preview that fits within maxBytes
+ * Shrinks the longest edge step by step until the preview is small enough
+ */
+export async function createPreview(
+  buffer: Buffer,
+  maxBytes: number
+): Promise<{ data: Buffer; mimeType: string; width: number; height: number }> {
+  let maxEdge = 1024;
+
+  for (;;) {
+    const { data, info } = await sharp(buffer)
+      .resize({ width: maxEdge, height: maxEdge, fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer({ resolveWithObject: true });
+
+    if (data.length <= maxBytes || maxEdge <= 64) {
+      return { data, mimeType: 'image/webp', width: info.width, height: info.height };
+    }
+    maxEdge = Math.round(maxEdge * 0.7);
+  }
+}
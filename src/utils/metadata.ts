@@ -0,0 +1,319 @@
+import fs from 'fs/promises';
+import { crc32 } from './zip.js';
+import { sniffImageFormat } from './image.js';
+
+/**
+ * Generation provenance stored with output files
+ *
+ * PNG files carry it in an iTXt chunk and WebP files in an XMP chunk, both
+ * added without re-encoding the image. JPEG and AVIF get a `.json` sidecar
+ * next to the file instead.
+ */
+
+export interface GenerationMetadata {
+  tool: string;
+  created_at: string;
+  provider?: string;
+  model?: string;
+  /** The tool arguments that shaped the image (prompt, style, size, ...) */
+  parameters: Record<string, unknown>;
+}
+
+// PNG iTXt keyword and XMP property holding the JSON record
+const PNG_KEYWORD = 'generation';
+const XMP_NAMESPACE = 'urn:image-beautifier-mcp:generation:1.0';
+const SOFTWARE = 'image-beautifier-mcp';
+
+const PNG_SIGNATURE_LENGTH = 8;
+
+/**
+ * Build a metadata record, dropping arguments that don't affect the image
+ */
+export function buildGenerationMetadata(
+  tool: string,
+  parameters: Record<string, unknown>,
+  provider?: { id: string; model: string }
+): GenerationMetadata {
+  // Delivery options only; provider and model are recorded separately
+  const {
+    return_image: _returnImage,
+    async: _async,
+    output_path: _outputPath,
+    provider: _provider,
+    cache: _cache,
+    ...rest
+  } = parameters;
+  return {
+    tool,
+    created_at: new Date().toISOString(),
+    provider: provider?.id,
+    model: provider?.model,
+    parameters: Object.fromEntries(Object.entries(rest).filter(([, value]) => value !== undefined)),
+  };
+}
+
+/**
+ * Sidecar path for formats that can't carry the record themselves
+ */
+export function sidecarPath(filePath: string): string {
+  return `${filePath}.json`;
+}
+
+/**
+ * Add the record to PNG or WebP bytes
+ * Returns null for formats that need a sidecar
+ */
+export function embedMetadata(buffer: Buffer, metadata: GenerationMetadata): Buffer | null {
+  switch (sniffImageFormat(buffer)) {
+    case 'png':
+      return embedPngMetadata(buffer, metadata);
+    case 'webp':
+      return embedWebpMetadata(buffer, metadata);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Read an embedded record from PNG or WebP bytes
+ */
+export function readEmbeddedMetadata(buffer: Buffer): GenerationMetadata | null {
+  const text = sniffImageFormat(buffer) === 'png' ? readPngText(buffer, PNG_KEYWORD) : readWebpXmpRecord(buffer);
+  if (!text) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(text) as GenerationMetadata;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the record of a file, embedded or from its sidecar
+ */
+export async function readFileMetadata(
+  filePath: string,
+  buffer?: Buffer
+): Promise<{ metadata: GenerationMetadata; source: 'embedded' | 'sidecar' } | null> {
+  const embedded = readEmbeddedMetadata(buffer || await fs.readFile(filePath));
+  if (embedded) {
+    return { metadata: embedded, source: 'embedded' };
+  }
+
+  try {
+    return { metadata: JSON.parse(await fs.readFile(sidecarPath(filePath), 'utf-8')), source: 'sidecar' };
+  } catch {
+    // Not generated by this server, or written before metadata was recorded
+    return null;
+  }
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(data.length, 0);
+  header.write(type, 4, 'ascii');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), data])), 0);
+  return Buffer.concat([header, data, crc]);
+}
+
+/**
+ * Walk the chunks of a PNG, calling visit with each chunk's type and bounds
+ */
+function forEachPngChunk(buffer: Buffer, visit: (type: string, start: number, end: number) => void): void {
+  let offset = PNG_SIGNATURE_LENGTH;
+  while (offset + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('ascii', offset + 4, offset + 8);
+    const end = offset + 12 + length;
+    if (end > buffer.length) return;
+    visit(type, offset, end);
+    offset = end;
+  }
+}
+
+function embedPngMetadata(buffer: Buffer, metadata: GenerationMetadata): Buffer {
+  // iTXt: keyword, null, compression flag and method, empty language tag and translated keyword, UTF-8 text
+  const itxt = pngChunk('iTXt', Buffer.concat([
+    Buffer.from(PNG_KEYWORD, 'latin1'),
+    Buffer.from([0, 0, 0, 0, 0]),
+    Buffer.from(JSON.stringify(metadata), 'utf-8'),
+  ]));
+  const software = pngChunk('tEXt', Buffer.from(`Software\0${SOFTWARE}`, 'latin1'));
+
+  // Copy every chunk except an older record, and put ours just before the image data
+  const parts: Buffer[] = [buffer.subarray(0, PNG_SIGNATURE_LENGTH)];
+  let inserted = false;
+  forEachPngChunk(buffer, (type, start, end) => {
+    if ((type === 'iTXt' || type === 'tEXt') && chunkKeyword(buffer, start) === PNG_KEYWORD) {
+      return;
+    }
+    if (type === 'IDAT' && !inserted) {
+      parts.push(itxt, software);
+      inserted = true;
+    }
+    parts.push(buffer.subarray(start, end));
+  });
+
+  return inserted ? Buffer.concat(parts) : buffer;
+}
+
+function chunkKeyword(buffer: Buffer, start: number): string {
+  const dataStart = start + 8;
+  const dataEnd = dataStart + buffer.readUInt32BE(start);
+  const nul = buffer.indexOf(0, dataStart);
+  return nul === -1 || nul > dataEnd ? '' : buffer.toString('latin1', dataStart, nul);
+}
+
+function readPngText(buffer: Buffer, keyword: string): string | null {
+  let text: string | null = null;
+  forEachPngChunk(buffer, (type, start) => {
+    if (text !== null || (type !== 'iTXt' && type !== 'tEXt') || chunkKeyword(buffer, start) !== keyword) {
+      return;
+    }
+
+    const dataStart = start + 8;
+    const dataEnd = dataStart + buffer.readUInt32BE(start);
+    const afterKeyword = buffer.indexOf(0, dataStart) + 1;
+    if (type === 'tEXt') {
+      text = buffer.toString('latin1', afterKeyword, dataEnd);
+      return;
+    }
+
+    // Skip compression flag and method, then the language tag and translated keyword
+    if (buffer[afterKeyword] !== 0) return;
+    const afterLanguage = buffer.indexOf(0, afterKeyword + 2) + 1;
+    const afterTranslated = buffer.indexOf(0, afterLanguage) + 1;
+    text = buffer.toString('utf-8', afterTranslated, dataEnd);
+  });
+  return text;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&gt;/g, '>')
+    .replace(/&lt;/g, '<')
+    .replace(/&amp;/g, '&');
+}
+
+function buildXmpPacket(metadata: GenerationMetadata): string {
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    `<rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:ib="${XMP_NAMESPACE}"`,
+    ` xmp:CreatorTool="${SOFTWARE}" xmp:CreateDate="${metadata.created_at}"`,
+    ` ib:generation="${escapeXml(JSON.stringify(metadata))}"/>`,
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('\n');
+}
+
+interface RiffChunk {
+  type: string;
+  data: Buffer;
+}
+
+function readRiffChunks(buffer: Buffer): RiffChunk[] {
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const type = buffer.toString('ascii', offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const end = offset + 8 + size;
+    if (end > buffer.length) break;
+    chunks.push({ type, data: buffer.subarray(offset + 8, end) });
+    // Chunks are padded to an even size
+    offset = end + (size % 2);
+  }
+  return chunks;
+}
+
+function writeRiff(chunks: RiffChunk[]): Buffer {
+  const parts: Buffer[] = [];
+  for (const chunk of chunks) {
+    const header = Buffer.alloc(8);
+    header.write(chunk.type, 0, 'ascii');
+    header.writeUInt32LE(chunk.data.length, 4);
+    parts.push(header, chunk.data);
+    if (chunk.data.length % 2) parts.push(Buffer.alloc(1));
+  }
+  const body = Buffer.concat(parts);
+  const header = Buffer.alloc(12);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(body.length + 4, 4);
+  header.write('WEBP', 8, 'ascii');
+  return Buffer.concat([header, body]);
+}
+
+// VP8X feature flags
+const VP8X_XMP = 0x04;
+const VP8X_ALPHA = 0x10;
+
+/**
+ * Build the VP8X header a simple (VP8 or VP8L only) WebP needs before it can carry XMP
+ */
+function vp8xFor(image: RiffChunk): Buffer | null {
+  let width: number;
+  let height: number;
+  let flags = 0;
+
+  if (image.type === 'VP8 ' && image.data.length >= 10) {
+    width = image.data.readUInt16LE(6) & 0x3fff;
+    height = image.data.readUInt16LE(8) & 0x3fff;
+  } else if (image.type === 'VP8L' && image.data.length >= 5) {
+    const bits = image.data.readUInt32LE(1);
+    width = (bits & 0x3fff) + 1;
+    height = ((bits >> 14) & 0x3fff) + 1;
+    if ((bits >> 28) & 1) flags |= VP8X_ALPHA;
+  } else {
+    return null;
+  }
+
+  const data = Buffer.alloc(10);
+  data.writeUInt8(flags, 0);
+  data.writeUIntLE(width - 1, 4, 3);
+  data.writeUIntLE(height - 1, 7, 3);
+  return data;
+}
+
+function embedWebpMetadata(buffer: Buffer, metadata: GenerationMetadata): Buffer | null {
+  const chunks = readRiffChunks(buffer).filter((chunk) => chunk.type !== 'XMP ');
+  if (chunks.length === 0) {
+    return null;
+  }
+
+  if (chunks[0].type !== 'VP8X') {
+    const vp8x = vp8xFor(chunks[0]);
+    if (!vp8x) return null;
+    chunks.unshift({ type: 'VP8X', data: vp8x });
+  } else {
+    chunks[0] = { type: 'VP8X', data: Buffer.from(chunks[0].data) };
+  }
+
+  chunks[0].data[0] |= VP8X_XMP;
+  chunks.push({ type: 'XMP ', data: Buffer.from(buildXmpPacket(metadata), 'utf-8') });
+  return writeRiff(chunks);
+}
+
+function readWebpXmpRecord(buffer: Buffer): string | null {
+  if (sniffImageFormat(buffer) !== 'webp') {
+    return null;
+  }
+
+  const xmp = readRiffChunks(buffer).find((chunk) => chunk.type === 'XMP ');
+  const match = xmp && /ib:generation="([^"]*)"/.exec(xmp.data.toString('utf-8'));
+  return match ? unescapeXml(match[1]) : null;
+}
@@ -0,0 +1,78 @@
+import sharp from 'sharp';
+import { parseHexColor } from './background.js';
+
+/**
+ * Palette adherence scoring
+ *
+ * The image is shrunk to a small sample and every visible pixel is matched
+ * to the nearest brand color. A pixel close enough to it counts towards that
+ * color; the score is the share of pixels that matched any. Shading and
+ * anti-aliasing keep real images from scoring 1, so compare scores against a
+ * threshold rather than expecting a perfect match.
+ */
+
+export interface PaletteScore {
+  /** Share of visible pixels within tolerance of a brand color, 0-1 */
+  score: number;
+  /** Share of visible pixels matched to each brand color */
+  colors: Array<{ color: string; share: number }>;
+}
+
+/** Color distance (0-255) up to which a pixel counts as a brand color */
+export const DEFAULT_PALETTE_TOLERANCE = 60;
+
+// Longest side of the sample the score is computed on
+const SAMPLE_SIZE = 128;
+
+function roundShare(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Score how closely an image sticks to a palette of #rrggbb colors
+ * Transparent pixels are left out
+ */
+export async function scorePalette(
+  buffer: Buffer,
+  palette: string[],
+  tolerance = DEFAULT_PALETTE_TOLERANCE
+): Promise<PaletteScore> {
+  const colors = palette.map((color) => ({ color, rgb: parseHexColor(color) })).filter((entry) => entry.rgb);
+  const { data, info } = await sharp(buffer)
+    .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const counts = new Array<number>(colors.length).fill(0);
+  let visible = 0;
+  let matched = 0;
+
+  for (let offset = 0; offset < info.width * info.height * 4; offset += 4) {
+    if (data[offset + 3] < 128) continue;
+    visible++;
+
+    let nearest = -1;
+    let nearestDistance = Infinity;
+    colors.forEach(({ rgb }, index) => {
+      // Euclidean RGB distance scaled to 0-255
+      const distance = Math.sqrt(
+        (data[offset] - rgb![0]) ** 2 + (data[offset + 1] - rgb![1]) ** 2 + (data[offset + 2] - rgb![2]) ** 2
+      ) / Math.sqrt(3);
+      if (distance < nearestDistance) {
+        nearest = index;
+        nearestDistance = distance;
+      }
+    });
+
+    if (nearest !== -1 && nearestDistance <= tolerance) {
+      counts[nearest]++;
+      matched++;
+    }
+  }
+
+  return {
+    score: visible ? roundShare(matched / visible) : 0,
+    colors: colors.map(({ color }, index) => ({ color, share: visible ? roundShare(counts[index] / visible) : 0 })),
+  };
+}
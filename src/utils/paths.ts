@@ -1,5 +1,6 @@
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { ToolError } from './errors.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -7,9 +8,10 @@ const __dirname = path.dirname(__filename);
 // Get the project root (two levels up from utils/)
 const PROJECT_ROOT = path.resolve(__dirname, '..', '..');
 
-// Get the outputs directory from env or use default
-const OUTPUT_DIR = process.env.OUTPUT_DIR || './outputs';
-const OUTPUTS_PATH = path.resolve(PROJECT_ROOT, OUTPUT_DIR);
+// Get the outputs directory from env or use default, on each call so .env has been loaded
+function outputsPath(): string {
+  return path.resolve(PROJECT_ROOT, process.env.OUTPUT_DIR || './outputs');
+}
 
 /**
  * Safely join a filename to the outputs directory
@@ -20,12 +22,13 @@ export function safeJoinOutputs(filename: string): string {
   const safeName = path.basename(filename);
 
   // Join with outputs directory
-  const fullPath = path.join(OUTPUTS_PATH, safeName);
+  const outputsDir = outputsPath();
+  const fullPath = path.join(outputsDir, safeName);
 
   // Verify the resolved path is still within outputs directory
   const resolvedPath = path.resolve(fullPath);
-  if (!resolvedPath.startsWith(OUTPUTS_PATH)) {
-    throw new Error('Invalid output path: path traversal detected');
+  if (!resolvedPath.startsWith(outputsDir)) {
+    throw new ToolError('invalid_path', 'Invalid output path: path traversal detected');
   }
 
   return resolvedPath;
@@ -37,8 +40,8 @@ export function safeJoinOutputs(filename: string): string {
 export function validateOutputPath(filePath: string): string {
   const resolvedPath = path.resolve(PROJECT_ROOT, filePath);
 
-  if (!resolvedPath.startsWith(OUTPUTS_PATH)) {
-    throw new Error('Invalid output path: must be within outputs directory');
+  if (!resolvedPath.startsWith(outputsPath())) {
+    throw new ToolError('invalid_path', 'Invalid output path: must be within outputs directory');
   }
 
   return resolvedPath;
@@ -48,7 +51,14 @@ export function validateOutputPath(filePath: string): string {
  * Get the outputs directory path
  */
 export function getOutputsDir(): string {
-  return OUTPUTS_PATH;
+  return outputsPath();
+}
+
+/**
+ * Resolve a configured path (e.g. from the environment) against the project root
+ */
+export function resolveProjectPath(configuredPath: string): string {
+  return path.resolve(PROJECT_ROOT, configuredPath);
 }
 
 /**
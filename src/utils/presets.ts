@@ -0,0 +1,248 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import YAML from 'yaml';
+import { resolveProjectPath } from './paths.js';
+import { logger } from './log.js';
+
+/**
+ * Style and icon theme presets, and brand kits
+ *
+ * Built-in presets can be extended or overridden from a JSON or YAML file
+ * (STYLES_FILE). A preset wraps the prompt in a prefix and suffix, can add
+ * negative guidance, and supplies the size and background used when a call
+ * doesn't set them. The same file can define brand kits: a palette, tone and
+ * rules folded into the prompt, plus logo and reference images sent along
+ * with it. The file is read again whenever it changes, so new house styles
+ * show up without a restart.
+ */
+
+export interface Preset {
+  name: string;
+  description: string;
+  /** Put before the prompt */
+  prefix?: string;
+  /** Put after the prompt */
+  suffix?: string;
+  /** What the image should avoid */
+  negative?: string;
+  /** Size used when the call doesn't set one */
+  size?: string;
+  /** Background used when the call doesn't set one */
+  background?: 'transparent' | 'solid';
+  source: 'builtin' | 'config';
+}
+
+export interface BrandKit {
+  name: string;
+  description: string;
+  /** Brand colors as lowercase #rrggbb */
+  palette: string[];
+  typography?: string;
+  tone: string[];
+  do: string[];
+  dont: string[];
+  /** Absolute paths; the logo and references are sent to the provider as reference images */
+  logo?: string;
+  references: string[];
+  /** palette_check score from which an image counts as on-brand */
+  minPaletteScore: number;
+}
+
+interface PresetRegistry {
+  file?: string;
+  mtimeMs?: number;
+  styles: Map<string, Preset>;
+  themes: Map<string, Preset>;
+  brands: Map<string, BrandKit>;
+}
+
+const BUILTIN_STYLES: Preset[] = [
+  // The models' natural default, so it adds nothing to the prompt
+  { name: 'illustration', description: 'Illustration, the models\' default look', source: 'builtin' },
+  { name: '3d', description: '3D render', prefix: '3D rendered style', source: 'builtin' },
+  { name: 'flat', description: 'Flat design', prefix: 'flat design style', source: 'builtin' },
+  { name: 'photoreal', description: 'Photorealistic', prefix: 'photorealistic style', source: 'builtin' },
+  { name: 'anime', description: 'Anime art', prefix: 'anime art style', source: 'builtin' },
+  { name: 'pixel', description: 'Pixel art', prefix: 'pixel art style', source: 'builtin' },
+];
+
+const BUILTIN_THEMES: Preset[] = [
+  { name: 'minimal', description: 'Minimalist icons', prefix: 'minimalist, clean lines, simple shapes, modern', source: 'builtin' },
+  { name: 'playful', description: 'Playful icons', prefix: 'fun, colorful, rounded shapes, friendly', source: 'builtin' },
+  { name: 'corporate', description: 'Corporate icons', prefix: 'professional, sleek, business-like, polished', source: 'builtin' },
+];
+
+const presetConfigSchema = z.object({
+  description: z.string().max(500).default(''),
+  prefix: z.string().max(1000).optional(),
+  suffix: z.string().max(1000).optional(),
+  negative: z.string().max(1000).optional(),
+  size: z.string().regex(/^\d+x\d+$/, 'Expected WIDTHxHEIGHT, e.g. 1536x1024').optional(),
+  background: z.enum(['transparent', 'solid']).optional(),
+});
+
+const presetNameSchema = z.string().regex(/^[a-z0-9][a-z0-9_-]*$/i, 'Use letters, digits, - and _').max(64);
+
+const brandConfigSchema = z.object({
+  description: z.string().max(500).default(''),
+  palette: z.array(z.string().regex(/^#?[0-9a-f]{6}$/i, 'Expected a #rrggbb color')).min(1).max(12),
+  typography: z.string().max(500).optional(),
+  tone: z.array(z.string().max(100)).max(20).default([]),
+  do: z.array(z.string().max(300)).max(20).default([]),
+  dont: z.array(z.string().max(300)).max(20).default([]),
+  logo: z.string().optional(),
+  references: z.array(z.string()).max(4).default([]),
+  min_palette_score: z.number().min(0).max(1).default(0.5),
+});
+
+const presetFileSchema = z.object({
+  styles: z.record(presetNameSchema, presetConfigSchema).default({}),
+  themes: z.record(presetNameSchema, presetConfigSchema).default({}),
+  brands: z.record(presetNameSchema, brandConfigSchema).default({}),
+});
+
+let registry: PresetRegistry | undefined;
+
+function toMap(presets: Preset[]): Map<string, Preset> {
+  return new Map(presets.map((preset) => [preset.name, preset]));
+}
+
+/**
+ * Parse STYLES_FILE; YAML for .yaml and .yml, JSON otherwise
+ */
+function readPresetFile(file: string): z.infer<typeof presetFileSchema> {
+  const text = fs.readFileSync(file, 'utf-8');
+  const extension = path.extname(file).toLowerCase();
+  return presetFileSchema.parse(extension === '.yaml' || extension === '.yml' ? YAML.parse(text) : JSON.parse(text));
+}
+
+/**
+ * Built-in presets merged with STYLES_FILE, reloaded when the file changes
+ * A file that can't be read or is invalid is ignored with a warning
+ */
+function loadPresets(): PresetRegistry {
+  const file = process.env.STYLES_FILE ? resolveProjectPath(process.env.STYLES_FILE) : undefined;
+  let mtimeMs: number | undefined;
+  if (file) {
+    try {
+      mtimeMs = fs.statSync(file).mtimeMs;
+    } catch {
+      // Reported below, once per change
+    }
+  }
+
+  if (registry && registry.file === file && registry.mtimeMs === mtimeMs) {
+    return registry;
+  }
+
+  const styles = toMap(BUILTIN_STYLES);
+  const themes = toMap(BUILTIN_THEMES);
+  const brands = new Map<string, BrandKit>();
+
+  if (file) {
+    try {
+      const config = readPresetFile(file);
+      for (const [name, preset] of Object.entries(config.styles)) {
+        styles.set(name, { name, ...preset, source: 'config' });
+      }
+      for (const [name, preset] of Object.entries(config.themes)) {
+        themes.set(name, { name, ...preset, source: 'config' });
+      }
+      // Image paths are relative to the file
+      const resolveImage = (image: string) => path.resolve(path.dirname(file), image);
+      for (const [name, { palette, logo, references, min_palette_score, ...kit }] of Object.entries(config.brands)) {
+        brands.set(name, {
+          name,
+          ...kit,
+          palette: palette.map((color) => `#${color.replace('#', '').toLowerCase()}`),
+          logo: logo ? resolveImage(logo) : undefined,
+          references: references.map(resolveImage),
+          minPaletteScore: min_palette_score,
+        });
+      }
+      logger.debug('Loaded presets:', {
+        file,
+        styles: Object.keys(config.styles),
+        themes: Object.keys(config.themes),
+        brands: Object.keys(config.brands),
+      });
+    } catch (error) {
+      logger.warn('Ignoring STYLES_FILE:', file, error instanceof Error ? error.message : error);
+    }
+  }
+
+  registry = { file, mtimeMs, styles, themes, brands };
+  return registry;
+}
+
+export function getStylePreset(name: string): Preset | undefined {
+  return loadPresets().styles.get(name);
+}
+
+export function getThemePreset(name: string): Preset | undefined {
+  return loadPresets().themes.get(name);
+}
+
+/**
+ * Style presets, built-ins first
+ */
+export function listStyles(): Preset[] {
+  return [...loadPresets().styles.values()];
+}
+
+/**
+ * Icon theme presets, built-ins first
+ */
+export function listThemes(): Preset[] {
+  return [...loadPresets().themes.values()];
+}
+
+export function getBrandKit(name: string): BrandKit | undefined {
+  return loadPresets().brands.get(name);
+}
+
+export function listBrandKits(): BrandKit[] {
+  return [...loadPresets().brands.values()];
+}
+
+export function listBrandNames(): string[] {
+  return [...loadPresets().brands.keys()];
+}
+
+export function listStyleNames(): string[] {
+  return [...loadPresets().styles.keys()];
+}
+
+export function listThemeNames(): string[] {
+  return [...loadPresets().themes.keys()];
+}
+
+/**
+ * Wrap a prompt in a preset's prefix and suffix, then add its negative guidance
+ */
+export function applyPresetPrompt(prompt: string, preset: Preset): string {
+  let text = preset.prefix ? `${preset.prefix}, ${prompt}` : prompt;
+  if (preset.suffix) {
+    text = `${text.replace(/[.\s]+$/, '')}, ${preset.suffix}`;
+  }
+  if (preset.negative) {
+    text = `${text.replace(/[.\s]+$/, '')}. Avoid: ${preset.negative}`;
+  }
+  return text;
+}
+
+/**
+ * Add a brand kit's palette, typography, tone and rules to the prompt
+ */
+export function applyBrandPrompt(prompt: string, kit: BrandKit): string {
+  const guidelines = [`use the brand color palette ${kit.palette.join(', ')}`];
+  if (kit.typography) guidelines.push(`typography: ${kit.typography}`);
+  if (kit.tone.length > 0) guidelines.push(`tone: ${kit.tone.join(', ')}`);
+  if (kit.do.length > 0) guidelines.push(`do: ${kit.do.join('; ')}`);
+  if (kit.dont.length > 0) guidelines.push(`don't: ${kit.dont.join('; ')}`);
+  if (kit.logo) guidelines.push('where a logo appears, use the attached brand logo exactly as given');
+  if (kit.references.length > 0) guidelines.push('match the look of the attached brand reference images');
+
+  return `${prompt.replace(/[.\s]+$/, '')}. Brand guidelines: ${guidelines.join('. ')}.`;
+}
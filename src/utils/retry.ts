@@ -0,0 +1,57 @@
+import { logger } from './log.js';
+import { abortableDelay, throwIfAborted } from './abort.js';
+
+export interface RetryOptions {
+  /** Number of retries after the first attempt */
+  retries: number;
+  /** Base delay for exponential backoff */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay */
+  maxDelayMs: number;
+  /** Decide whether a failed attempt may be retried */
+  shouldRetry: (error: unknown) => boolean;
+  /** Server-requested delay (e.g. from Retry-After), overriding the backoff */
+  getRetryAfterMs?: (error: unknown) => number | undefined;
+  /** Stop retrying (and waiting) once this fires */
+  signal?: AbortSignal;
+}
+
+/**
+ * Exponential backoff with full jitter: random delay in [0, base * 2^attempt]
+ */
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Run an async operation, retrying failures the caller deems transient
+ *
+ * A server-requested delay is honored as long as it does not exceed
+ * maxDelayMs; longer waits are surfaced to the caller instead. An aborted
+ * signal ends the loop with the cancellation error.
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(options.signal);
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= options.retries || options.signal?.aborted || !options.shouldRetry(error)) {
+        throw error;
+      }
+
+      const retryAfterMs = options.getRetryAfterMs?.(error);
+      if (retryAfterMs !== undefined && retryAfterMs > options.maxDelayMs) {
+        throw error;
+      }
+
+      const delay = retryAfterMs ?? backoffDelay(attempt, options.baseDelayMs, options.maxDelayMs);
+      logger.warn(`Attempt ${attempt + 1} failed, retrying in ${delay}ms:`, error instanceof Error ? error.message : error);
+      await abortableDelay(delay, options.signal);
+    }
+  }
+}
@@ -1,16 +1,15 @@
 import { z } from 'zod';
+import { sizeForAspectRatio } from './files.js';
+import { getBrandKit, getStylePreset, getThemePreset, listBrandNames, listStyleNames, listThemeNames } from './presets.js';
 
 // Common validation schemas
 export const promptSchema = z.string().min(1).max(2000);
 
-export const styleSchema = z.enum([
-  'illustration',
-  '3d',
-  'flat',
-  'photoreal',
-  'anime',
-  'pixel',
-]);
+// Styles and themes are presets, so the names are checked against the current list
+export const styleSchema = z.string().refine(
+  (name) => !!getStylePreset(name),
+  (name) => ({ message: `Unknown style "${name}". Available: ${listStyleNames().join(', ')}` })
+);
 
 export const sizeSchema = z.enum(['1024x1024', '1024x1536', '1536x1024']);
 
@@ -18,53 +17,378 @@ export const iconSizeSchema = z.enum(['256x256', '512x512']);
 
 export const backgroundSchema = z.enum(['transparent', 'solid']);
 
-export const outputFormatSchema = z.enum(['png', 'webp']);
+export const outputFormatSchema = z.enum(['png', 'webp', 'jpeg', 'avif']);
 
-export const themeSchema = z.enum(['minimal', 'playful', 'corporate']);
+export const fitSchema = z.enum(['cover', 'contain', 'fill']);
+
+export const qualitySchema = z.number().int().min(1).max(100);
+
+export const hexColorSchema = z.string().regex(/^#?[0-9a-f]{6}$/i, 'Expected a #rrggbb color');
+
+export const cacheModeSchema = z.enum(['use', 'refresh', 'bypass']);
+
+export const themeSchema = z.string().refine(
+  (name) => !!getThemePreset(name),
+  (name) => ({ message: `Unknown theme "${name}". Available: ${listThemeNames().join(', ')}` })
+);
+
+export const brandSchema = z.string().refine(
+  (name) => !!getBrandKit(name),
+  (name) => ({
+    message: listBrandNames().length > 0
+      ? `Unknown brand "${name}". Available: ${listBrandNames().join(', ')}`
+      : `Unknown brand "${name}". No brand kits are defined; add them under brands in STYLES_FILE`,
+  })
+);
+
+// palette_check scores against the brand's colors, so it needs a brand
+const paletteCheckNeedsBrand = (input: { brand?: string; palette_check?: boolean }) => !input.palette_check || !!input.brand;
+const PALETTE_CHECK_ISSUE = { message: 'palette_check needs a brand', path: ['palette_check'] };
+
+// Free-form W:H, from 1:4 to 4:1
+export const aspectRatioSchema = z
+  .string()
+  .regex(/^\d{1,3}:\d{1,3}$/, 'Expected W:H, e.g. 21:9')
+  .refine((value) => {
+    const [width, height] = value.split(':').map(Number);
+    return width > 0 && height > 0 && width / height >= 0.25 && width / height <= 4;
+  }, 'Aspect ratio must be between 1:4 and 4:1');
+
+// Advanced generation controls; ones the provider can't honor are reported in ignored_options
+const generationControlFields = {
+  seed: z.number().int().min(0).max(2147483647).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  candidate_count: z.number().int().min(1).max(4).optional(),
+  negative_prompt: z.string().min(1).max(1000).optional(),
+};
+
+// aspect_ratio picks the size, so it can't be combined with one
+const sizeOrAspectRatio = (input: { size?: string; aspect_ratio?: string }) => !(input.size && input.aspect_ratio);
+const SIZE_OR_ASPECT_RATIO_ISSUE = { message: 'Pass size or aspect_ratio, not both', path: ['aspect_ratio'] };
+
+// JPEG has no alpha channel, so it can't keep a transparent background
+const transparentNeedsAlpha = (input: { background?: string; output_format?: string }) =>
+  !(input.background === 'transparent' && input.output_format === 'jpeg');
+const TRANSPARENT_JPEG_ISSUE = { message: 'A transparent background needs png, webp or avif output', path: ['background'] };
+
+export const providerSchema = z.string().min(1).max(50);
+
+export const inputImageRoleSchema = z.enum(['source', 'mask', 'reference']);
+
+export const inputImageSchema = z.object({
+  path: z.string().min(1),
+  role: inputImageRoleSchema.default('source'),
+});
 
 // Tool input schemas
-export const generateImageInputSchema = z.object({
-  prompt: promptSchema,
-  style: styleSchema.default('illustration'),
-  size: sizeSchema.default('1024x1024'),
-  background: backgroundSchema.default('solid'),
-  output_format: outputFormatSchema.default('png'),
+export const generateImageInputSchema = z
+  .object({
+    prompt: promptSchema,
+    style: styleSchema.default('illustration'),
+    size: sizeSchema.optional(),
+    background: backgroundSchema.optional(),
+    output_format: outputFormatSchema.default('png'),
+    fit: fitSchema.default('cover'),
+    quality: qualitySchema.optional(),
+    cache: cacheModeSchema.default('use'),
+    brand: brandSchema.optional(),
+    palette_check: z.boolean().optional(),
+    aspect_ratio: aspectRatioSchema.optional(),
+    ...generationControlFields,
+    provider: providerSchema.optional(),
+    return_image: z.boolean().optional(),
+    async: z.boolean().optional(),
+    output_path: z.string().optional(),
+  })
+  .refine(paletteCheckNeedsBrand, PALETTE_CHECK_ISSUE)
+  .refine(sizeOrAspectRatio, SIZE_OR_ASPECT_RATIO_ISSUE)
+  .refine(transparentNeedsAlpha, TRANSPARENT_JPEG_ISSUE)
+  // Size and background the call leaves out come from aspect_ratio or the style preset
+  .transform((input, ctx) => {
+    const preset = getStylePreset(input.style);
+    // A style that defaults to transparent still gets a solid backdrop for JPEG output
+    const presetBackground = input.output_format === 'jpeg' ? undefined : preset?.background;
+    const background = input.background ?? presetBackground ?? 'solid';
+    if (input.aspect_ratio) {
+      return { ...input, size: sizeForAspectRatio(input.aspect_ratio), background };
+    }
+
+    const size = sizeSchema.safeParse(input.size ?? preset?.size ?? '1024x1024');
+    if (!size.success) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['style'],
+        message: `Style "${input.style}" defaults to size ${preset?.size}, which is not one of ${sizeSchema.options.join(', ')}`,
+      });
+      return z.NEVER;
+    }
+    return { ...input, size: size.data as string, background };
+  });
+
+export const editImageInputSchema = z
+  .object({
+    prompt: promptSchema,
+    input_images: z.array(inputImageSchema).min(1).max(10),
+    size: sizeSchema.optional(),
+    aspect_ratio: aspectRatioSchema.optional(),
+    output_format: outputFormatSchema.default('png'),
+    fit: fitSchema.default('cover'),
+    quality: qualitySchema.optional(),
+    brand: brandSchema.optional(),
+    palette_check: z.boolean().optional(),
+    ...generationControlFields,
+    provider: providerSchema.optional(),
+    return_image: z.boolean().optional(),
+    async: z.boolean().optional(),
+    output_path: z.string().optional(),
+  })
+  .refine((input) => input.input_images.some((image) => image.role !== 'mask'), {
+    message: 'At least one source or reference image is required',
+    path: ['input_images'],
+  })
+  .refine((input) => input.input_images.filter((image) => image.role === 'mask').length <= 1, {
+    message: 'At most one mask image is allowed',
+    path: ['input_images'],
+  })
+  .refine(paletteCheckNeedsBrand, PALETTE_CHECK_ISSUE)
+  .refine(sizeOrAspectRatio, SIZE_OR_ASPECT_RATIO_ISSUE);
+
+export const generateIconInputSchema = z
+  .object({
+    concept: promptSchema,
+    theme: themeSchema.default('minimal'),
+    size: iconSizeSchema.optional(),
+    output_format: outputFormatSchema.default('png'),
+    fit: fitSchema.default('cover'),
+    quality: qualitySchema.optional(),
+    export_icon_set: z.enum(['zip', 'folder']).optional(),
+    background_color: hexColorSchema.default('#ffffff'),
+    brand: brandSchema.optional(),
+    palette_check: z.boolean().optional(),
+    ...generationControlFields,
+    provider: providerSchema.optional(),
+    return_image: z.boolean().optional(),
+    async: z.boolean().optional(),
+  })
+  .refine(paletteCheckNeedsBrand, PALETTE_CHECK_ISSUE)
+  // Size and background come from the theme preset; icons are transparent unless it says
+  // otherwise or the output is JPEG, which has no alpha channel
+  .transform((input, ctx) => {
+    const preset = getThemePreset(input.theme);
+    const size = iconSizeSchema.safeParse(input.size ?? preset?.size ?? '512x512');
+    if (!size.success) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['theme'],
+        message: `Theme "${input.theme}" defaults to size ${preset?.size}, which is not one of ${iconSizeSchema.options.join(', ')}`,
+      });
+      return z.NEVER;
+    }
+    const background = input.output_format === 'jpeg' ? 'solid' : preset?.background ?? 'transparent';
+    return { ...input, size: size.data, background };
+  });
+
+export const generateHeroInputSchema = z
+  .object({
+    product_name: z.string().min(1).max(200),
+    tagline: z.string().min(1).max(500),
+    vibe: z.string().max(200).optional(),
+    size: sizeSchema.optional(),
+    aspect_ratio: aspectRatioSchema.optional(),
+    output_format: outputFormatSchema.default('png'),
+    fit: fitSchema.default('cover'),
+    quality: qualitySchema.optional(),
+    brand: brandSchema.optional(),
+    palette_check: z.boolean().optional(),
+    ...generationControlFields,
+    provider: providerSchema.optional(),
+    return_image: z.boolean().optional(),
+    async: z.boolean().optional(),
+  })
+  .refine(paletteCheckNeedsBrand, PALETTE_CHECK_ISSUE)
+  .refine(sizeOrAspectRatio, SIZE_OR_ASPECT_RATIO_ISSUE)
+  .transform((input) => ({
+    ...input,
+    size: input.aspect_ratio ? sizeForAspectRatio(input.aspect_ratio) : input.size ?? '1536x1024',
+  }));
+
+export const beautifyScreenshotInputSchema = z
+  .object({
+    input_image_path: z.string().min(1),
+    goal: z.string().min(1).max(1000),
+    output_format: outputFormatSchema.default('png'),
+    fit: fitSchema.default('cover'),
+    quality: qualitySchema.optional(),
+    brand: brandSchema.optional(),
+    palette_check: z.boolean().optional(),
+    ...generationControlFields,
+    provider: providerSchema.optional(),
+    return_image: z.boolean().optional(),
+    async: z.boolean().optional(),
+  })
+  .refine(paletteCheckNeedsBrand, PALETTE_CHECK_ISSUE);
+
+export const removeBackgroundInputSchema = z.object({
+  input_image_path: z.string().min(1),
+  color: hexColorSchema.optional(),
+  tolerance: z.number().int().min(0).max(255).optional(),
+  feather: z.number().int().min(0).max(255).optional(),
+  output_format: z.enum(['png', 'webp', 'avif']).default('png'),
+  quality: qualitySchema.optional(),
+  return_image: z.boolean().optional(),
   output_path: z.string().optional(),
 });
 
-export const generateIconInputSchema = z.object({
-  concept: promptSchema,
-  theme: themeSchema.default('minimal'),
-  size: iconSizeSchema.default('512x512'),
-  output_format: outputFormatSchema.default('png'),
+export const getImageInfoInputSchema = z.object({
+  file_path: z.string().min(1),
 });
 
-export const generateHeroInputSchema = z.object({
-  product_name: z.string().min(1).max(200),
-  tagline: z.string().min(1).max(500),
-  vibe: z.string().max(200).optional(),
-  size: sizeSchema.default('1536x1024'),
-  output_format: outputFormatSchema.default('png'),
+const dateStringSchema = z.string().refine((value) => !Number.isNaN(Date.parse(value)), 'Expected an ISO 8601 date or date-time');
+
+export const listOutputsInputSchema = z.object({
+  tool: z.string().min(1).max(50).optional(),
+  format: z.enum(['png', 'webp', 'jpeg', 'avif', 'gif', 'zip']).optional(),
+  since: dateStringSchema.optional(),
+  until: dateStringSchema.optional(),
+  query: z.string().min(1).max(200).optional(),
+  limit: z.number().int().min(1).max(200).default(50),
+  cursor: z.string().regex(/^\d+$/, 'Expected a cursor from a previous list_outputs call').optional(),
 });
 
-export const beautifyScreenshotInputSchema = z.object({
-  input_image_path: z.string().min(1),
-  goal: z.string().min(1).max(1000),
-  output_format: outputFormatSchema.default('png'),
+export const deleteOutputInputSchema = z.object({
+  file_path: z.string().min(1),
+});
+
+export const renameOutputInputSchema = z.object({
+  file_path: z.string().min(1),
+  new_name: z.string().min(1).max(200),
+});
+
+export const getUsageInputSchema = z.object({
+  since: dateStringSchema.optional(),
+  until: dateStringSchema.optional(),
+  tool: z.string().min(1).max(50).optional(),
+  model: z.string().min(1).max(100).optional(),
+});
+
+export const BATCH_MAX_ITEMS = 20;
+
+export const batchItemSchema = z.object({
+  prompt: promptSchema,
+  style: styleSchema.optional(),
+  size: sizeSchema.optional(),
+  background: backgroundSchema.optional(),
+});
+
+export const generateBatchInputSchema = z
+  .object({
+    items: z.array(batchItemSchema).min(1).max(BATCH_MAX_ITEMS).optional(),
+    prompt: promptSchema.optional(),
+    n: z.number().int().min(1).max(BATCH_MAX_ITEMS).default(4),
+    styles: z.array(styleSchema).min(1).optional(),
+    style: styleSchema.optional(),
+    size: sizeSchema.optional(),
+    aspect_ratio: aspectRatioSchema.optional(),
+    background: backgroundSchema.optional(),
+    output_format: outputFormatSchema.default('png'),
+    fit: fitSchema.default('cover'),
+    quality: qualitySchema.optional(),
+    ...generationControlFields,
+    concurrency: z.number().int().min(1).max(16).optional(),
+    contact_sheet: z.boolean().default(false),
+    cache: cacheModeSchema.default('use'),
+    brand: brandSchema.optional(),
+    palette_check: z.boolean().optional(),
+    provider: providerSchema.optional(),
+    return_image: z.boolean().optional(),
+    async: z.boolean().optional(),
+  })
+  .refine((input) => !!input.items !== !!input.prompt, {
+    message: 'Pass either items or prompt, not both',
+    path: ['items'],
+  })
+  .refine(paletteCheckNeedsBrand, PALETTE_CHECK_ISSUE)
+  .refine(sizeOrAspectRatio, SIZE_OR_ASPECT_RATIO_ISSUE)
+  .refine(transparentNeedsAlpha, TRANSPARENT_JPEG_ISSUE)
+  .refine((input) => input.output_format !== 'jpeg' || !input.items?.some((item) => item.background === 'transparent'), {
+    ...TRANSPARENT_JPEG_ISSUE,
+    path: ['items'],
+  });
+
+export const listStylesInputSchema = z.object({});
+
+export const jobStatusSchema = z.enum(['queued', 'running', 'succeeded', 'failed']);
+
+export const getJobInputSchema = z.object({
+  job_id: z.string().min(1),
+});
+
+export const listJobsInputSchema = z.object({
+  status: jobStatusSchema.optional(),
+});
+
+export const waitJobInputSchema = z.object({
+  job_id: z.string().min(1),
+  timeout_ms: z.number().int().min(0).max(300000).default(25000),
 });
 
 // Tool output schema
 export const imageOutputSchema = z.object({
   ok: z.boolean(),
   file_path: z.string(),
+  resource_uri: z.string(),
   mime_type: z.string(),
   width: z.number(),
   height: z.number(),
+  provider: z.string().optional(),
+  model: z.string().optional(),
+  inline_image: z.enum(['full', 'preview']).optional(),
+  cache: z
+    .object({
+      status: z.enum(['hit', 'miss', 'refresh', 'bypass']),
+      key: z.string().optional(),
+    })
+    .optional(),
+  icon_set: z
+    .object({
+      path: z.string(),
+      resource_uri: z.string().optional(),
+      format: z.enum(['zip', 'folder']),
+      files: z.array(z.string()),
+      manifest: z.record(z.unknown()),
+      html: z.string(),
+    })
+    .optional(),
+  candidates: z
+    .array(
+      z.object({
+        file_path: z.string(),
+        resource_uri: z.string(),
+        mime_type: z.string(),
+        width: z.number(),
+        height: z.number(),
+      })
+    )
+    .optional(),
+  ignored_options: z.array(z.string()).optional(),
+  palette_check: z
+    .object({
+      brand: z.string(),
+      score: z.number(),
+      min_score: z.number(),
+      passed: z.boolean(),
+      colors: z.array(z.object({ color: z.string(), share: z.number() })),
+    })
+    .optional(),
   message: z.string().optional(),
 });
 
 export type GenerateImageInput = z.infer<typeof generateImageInputSchema>;
+export type EditImageInput = z.infer<typeof editImageInputSchema>;
 export type GenerateIconInput = z.infer<typeof generateIconInputSchema>;
 export type GenerateHeroInput = z.infer<typeof generateHeroInputSchema>;
 export type BeautifyScreenshotInput = z.infer<typeof beautifyScreenshotInputSchema>;
+export type RemoveBackgroundInput = z.infer<typeof removeBackgroundInputSchema>;
+export type GetImageInfoInput = z.infer<typeof getImageInfoInputSchema>;
+export type GenerateBatchInput = z.infer<typeof generateBatchInputSchema>;
 export type ImageOutput = z.infer<typeof imageOutputSchema>;